@@ -0,0 +1,256 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { runnerImport, type Plugin, type ResolvedConfig, type ViteDevServer } from 'vite';
+import type { Project } from '../src/types';
+import type { HeroShowcaseSlide } from '../src/data/heroShowcase';
+import { loadProjects, type ProjectSource } from './projectContent';
+
+export type ContentIssueSeverity = 'error' | 'warning';
+
+export interface ContentIssue {
+  severity: ContentIssueSeverity;
+  /** File the issue should be fixed in, relative to the working directory. */
+  file: string;
+  message: string;
+}
+
+export interface ValidateContentInput {
+  sources: ProjectSource[];
+  slides: HeroShowcaseSlide[];
+  slidesFile: string;
+  /** Returns true when a public URL such as /assets/x.jpg exists on disk. */
+  assetExists: (url: string) => boolean;
+  /** How a file missing from public/ is reported. Defaults to 'error'. */
+  missingAssets?: ContentIssueSeverity;
+}
+
+type RequiredField = [label: string, read: (p: Project) => unknown];
+
+const REQUIRED_FIELDS: RequiredField[] = [
+  ['slug', (p) => p.slug],
+  ['title', (p) => p.title],
+  ['summary', (p) => p.content?.summary],
+  ['description', (p) => p.content?.description],
+  ['architecture section', (p) => p.content?.disciplines?.architecture],
+  ['product design section', (p) => p.content?.disciplines?.productDesign],
+  ['software section', (p) => p.content?.disciplines?.software],
+  ['metadata.date', (p) => p.metadata?.date],
+  ['metadata.category', (p) => p.metadata?.category],
+  ['assets.hero', (p) => p.assets?.hero],
+];
+
+/** Column count of the landing grid in HeroPage.tsx. */
+const LANDING_COLUMNS = 3;
+
+const isBlank = (value: unknown) =>
+  value == null || (typeof value === 'string' && value.trim() === '');
+
+function findDuplicates<T>(sources: ProjectSource[], key: (p: Project) => T) {
+  const seen = new Map<T, ProjectSource[]>();
+  for (const source of sources) {
+    const value = key(source.project);
+    seen.set(value, [...(seen.get(value) ?? []), source]);
+  }
+  return [...seen.entries()].filter(([, group]) => group.length > 1);
+}
+
+/** Checks the compiled project list and the hero showcase for consistency. Never throws. */
+export function validateContent({
+  sources,
+  slides,
+  slidesFile,
+  assetExists,
+  missingAssets = 'error',
+}: ValidateContentInput): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+  const error = (file: string, message: string) => issues.push({ severity: 'error', file, message });
+  const missing = (file: string, message: string) => issues.push({ severity: missingAssets, file, message });
+
+  for (const [field, key] of [
+    ['id', (p: Project) => p.id],
+    ['slug', (p: Project) => p.slug],
+  ] as const) {
+    for (const [value, group] of findDuplicates<unknown>(sources, key)) {
+      const files = group.map((s) => s.file).join(', ');
+      error(group[1].file, `duplicate ${field} ${JSON.stringify(value)} (used by ${files})`);
+    }
+  }
+
+  for (const { file, project } of sources) {
+    if (!Number.isInteger(project.id)) error(file, 'id must be an integer');
+
+    for (const [label, read] of REQUIRED_FIELDS) {
+      if (isBlank(read(project))) error(file, `${label} is empty`);
+    }
+
+    const d = project.disciplines;
+    if (!d || [d.arch, d.prod, d.sw].some((v) => typeof v !== 'number')) {
+      error(file, 'disciplines must set numeric arch, prod and sw');
+    } else if (d.arch + d.prod + d.sw !== 100) {
+      error(
+        file,
+        `disciplines sum to ${d.arch + d.prod + d.sw} (arch ${d.arch} + prod ${d.prod} + sw ${d.sw}); they must total 100`
+      );
+    }
+
+    const gallery = project.assets?.gallery ?? [];
+    gallery.forEach((image, i) => {
+      if (isBlank(image.src)) error(file, `gallery[${i}].src is empty`);
+      if (isBlank(image.title)) error(file, `gallery[${i}].title is empty`);
+    });
+
+    const hero = project.assets?.hero;
+    if (!isBlank(hero) && !assetExists(hero)) missing(file, `hero file not found: public${hero}`);
+    const video = project.assets?.heroVideo;
+    if (video) {
+      if (isBlank(video.src)) error(file, 'heroVideo.src is empty');
+      else if (!assetExists(video.src)) missing(file, `hero video not found: public${video.src}`);
+      if (video.poster && !assetExists(video.poster)) {
+        missing(file, `hero video poster not found: public${video.poster}`);
+      }
+    }
+    const absent = gallery.filter((image) => !isBlank(image.src) && !assetExists(image.src));
+    if (absent.length > 0) {
+      const names = absent.map((image) => path.posix.basename(image.src)).join(', ');
+      missing(file, `${absent.length} of ${gallery.length} gallery files not found: ${names}`);
+    }
+
+    project.landing?.cards?.forEach((card, i) => {
+      const spans = [card?.colSpan, card?.rowSpan];
+      if (!spans.every((n) => Number.isInteger(n) && n >= 1)) {
+        error(file, `landing.cards[${i}] needs integer colSpan and rowSpan of at least 1`);
+      } else if (card.colSpan > LANDING_COLUMNS) {
+        error(file, `landing.cards[${i}].colSpan is ${card.colSpan}; the landing grid has ${LANDING_COLUMNS} columns`);
+      }
+    });
+    project.landing?.images?.forEach((src, i) => {
+      if (!isBlank(src) && !assetExists(src)) missing(file, `landing.images[${i}] not found: public${src}`);
+    });
+  }
+
+  const ids = new Set(sources.map((s) => s.project.id));
+  slides.forEach((slide, i) => {
+    if (!ids.has(slide.projectId)) {
+      error(slidesFile, `heroShowcaseSlides[${i}] ("${slide.title}") points at projectId ${slide.projectId}, which does not exist`);
+    }
+    if (!isBlank(slide.src) && !assetExists(slide.src)) {
+      missing(slidesFile, `heroShowcaseSlides[${i}] file not found: public${slide.src}`);
+    }
+  });
+
+  return issues;
+}
+
+export function formatContentIssues(issues: ContentIssue[]): string {
+  const errors = issues.filter((i) => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+  const lines = issues.map((i) => `  ${i.severity === 'error' ? '✖' : '⚠'} ${i.file}: ${i.message}`);
+  return [`Content check: ${errors} error(s), ${warnings} warning(s)`, ...lines].join('\n');
+}
+
+export interface ContentValidationOptions {
+  /** Project markdown folder, as passed to projectContent(). */
+  dir: string;
+  /** Module exporting `heroShowcaseSlides`. */
+  slidesModule: string;
+  /**
+   * Reports files missing from public/ as warnings instead of failing the build, for
+   * checkouts without the image files.
+   */
+  allowMissingAssets?: boolean;
+}
+
+/**
+ * Runs validateContent() at the start of every build and fails it on errors. In dev the
+ * full list is shown in Vite's error overlay and re-checked whenever content changes; the
+ * page reloads to clear the overlay once the content checks out.
+ */
+export function contentValidation({
+  dir,
+  slidesModule,
+  allowMissingAssets = false,
+}: ContentValidationOptions): Plugin {
+  const contentDir = path.resolve(dir);
+  const slidesPath = path.resolve(slidesModule);
+  let config: ResolvedConfig;
+
+  const run = async (): Promise<ContentIssue[]> => {
+    const slidesFile = path.relative(process.cwd(), slidesPath);
+    let sources: ProjectSource[];
+    try {
+      sources = loadProjects(contentDir);
+    } catch (err) {
+      // Parse errors are reported by projectContent(); nothing further to check.
+      return [{ severity: 'error', file: path.relative(process.cwd(), contentDir), message: (err as Error).message }];
+    }
+    const { module } = await runnerImport<{ heroShowcaseSlides: HeroShowcaseSlide[] }>(slidesPath, {
+      logLevel: 'silent',
+    });
+    return validateContent({
+      sources,
+      slides: module.heroShowcaseSlides ?? [],
+      slidesFile,
+      assetExists: (url) => fs.existsSync(path.join(config.publicDir, decodeURI(url))),
+      missingAssets: allowMissingAssets ? 'warning' : 'error',
+    });
+  };
+
+  let overlayShown = false;
+
+  const reportToOverlay = async (server: ViteDevServer) => {
+    const issues = await run();
+    if (issues.length === 0) {
+      // The overlay only goes away on a reload.
+      if (overlayShown) server.ws.send({ type: 'full-reload' });
+      overlayShown = false;
+      return;
+    }
+    overlayShown = true;
+    server.config.logger.warn(formatContentIssues(issues));
+    server.ws.send({
+      type: 'error',
+      err: {
+        plugin: 'content-validation',
+        message: formatContentIssues(issues),
+        stack: '',
+      },
+    });
+  };
+
+  return {
+    name: 'content-validation',
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    async buildStart() {
+      // The SSR pass of `npm run build` compiles the same content; check it once.
+      if (config.command !== 'build' || config.build.ssr) return;
+      const issues = await run();
+      if (issues.length === 0) return;
+      if (issues.some((issue) => issue.severity === 'error')) this.error(formatContentIssues(issues));
+      this.warn(formatContentIssues(issues));
+    },
+
+    configureServer(server) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const schedule = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => void reportToOverlay(server), 200);
+      };
+      const watched = (file: string) => {
+        const resolved = path.resolve(file);
+        return (
+          resolved === slidesPath ||
+          resolved.startsWith(contentDir + path.sep) ||
+          resolved.startsWith(config.publicDir + path.sep)
+        );
+      };
+      server.watcher.on('all', (_event, file) => {
+        if (watched(file)) schedule();
+      });
+      schedule();
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { Plugin, ViteDevServer } from 'vite';
+import type { Project, ProjectContent } from '../src/types';
+
+/** Import this id to get the compiled `Project[]`; see src/data/projects.ts. */
+export const PROJECTS_MODULE_ID = 'virtual:projects';
+const RESOLVED_PROJECTS_MODULE_ID = `\0${PROJECTS_MODULE_ID}`;
+
+/** Each project is a folder holding one index.md, e.g. content/projects/03-hydraulic-commons/index.md. */
+const PROJECT_FILE = 'index.md';
+
+/** `## Heading` → field it fills. Headings are matched case-insensitively. */
+const SECTION_FIELDS = {
+  description: 'description',
+  architecture: 'architecture',
+  'product design': 'productDesign',
+  software: 'software',
+  process: 'process',
+  'technical details': 'technicalDetails',
+} as const;
+
+type SectionField = (typeof SECTION_FIELDS)[keyof typeof SECTION_FIELDS];
+
+export class ContentError extends Error {
+  constructor(
+    readonly file: string,
+    message: string
+  ) {
+    super(`${file}: ${message}`);
+    this.name = 'ContentError';
+  }
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
+
+/** Body text is plain prose: lines are joined, blank lines separate paragraphs. */
+function toPlainText(markdown: string): string {
+  return markdown
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.replace(/\s*\r?\n\s*/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function parseSections(file: string, body: string): Partial<Record<SectionField, string>> {
+  const sections: Partial<Record<SectionField, string>> = {};
+  const parts = body.split(/^##[ \t]+(.+?)[ \t]*$/m);
+  // parts = [preamble, heading1, text1, heading2, text2, ...]
+  if (parts[0].trim()) {
+    throw new ContentError(file, 'text before the first "## Section" heading');
+  }
+  for (let i = 1; i < parts.length; i += 2) {
+    const heading = parts[i].trim().toLowerCase();
+    const field = SECTION_FIELDS[heading as keyof typeof SECTION_FIELDS];
+    if (!field) {
+      const known = Object.keys(SECTION_FIELDS).join(', ');
+      throw new ContentError(file, `unknown section "## ${parts[i].trim()}" (expected one of: ${known})`);
+    }
+    sections[field] = toPlainText(parts[i + 1] ?? '');
+  }
+  return sections;
+}
+
+/** Compiles one project markdown file into the `Project` shape used by the app. */
+export function parseProjectFile(file: string, source: string): Project {
+  const match = FRONTMATTER.exec(source);
+  if (!match) throw new ContentError(file, 'missing "---" frontmatter block');
+
+  let frontmatter: Record<string, unknown>;
+  try {
+    frontmatter = parseYaml(match[1]) ?? {};
+  } catch (err) {
+    throw new ContentError(file, `invalid frontmatter: ${(err as Error).message}`);
+  }
+  const { summary, ...rest } = frontmatter as Omit<Project, 'content'> & { summary?: string };
+  const sections = parseSections(file, match[2]);
+
+  const content: ProjectContent = {
+    summary: summary ?? '',
+    description: sections.description ?? '',
+    disciplines: {
+      architecture: sections.architecture ?? '',
+      productDesign: sections.productDesign ?? '',
+      software: sections.software ?? '',
+    },
+  };
+  if (sections.process) content.process = sections.process;
+  if (sections.technicalDetails) content.technicalDetails = sections.technicalDetails;
+
+  const { id, slug, title, slotLabel, disciplines, metadata, assets, landing } = rest;
+  return {
+    id,
+    slug,
+    title,
+    ...(slotLabel ? { slotLabel } : {}),
+    disciplines,
+    metadata,
+    content,
+    assets,
+    ...(landing ? { landing } : {}),
+  };
+}
+
+export function listProjectFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => path.join(dir, entry.name, PROJECT_FILE))
+    .filter((file) => fs.existsSync(file));
+}
+
+export interface ProjectSource {
+  /** Path relative to the working directory, for messages. */
+  file: string;
+  project: Project;
+}
+
+/** Reads every project folder under `dir`, ordered by `id`. */
+export function loadProjects(dir: string): ProjectSource[] {
+  return listProjectFiles(dir)
+    .map((absolute) => {
+      const file = path.relative(process.cwd(), absolute);
+      return { file, project: parseProjectFile(file, fs.readFileSync(absolute, 'utf-8')) };
+    })
+    .sort((a, b) => a.project.id - b.project.id);
+}
+
+export interface ProjectContentOptions {
+  /** Folder holding one sub-folder per project. */
+  dir: string;
+}
+
+/**
+ * Serves `virtual:projects` from markdown files. In dev, editing, adding or removing a
+ * project file invalidates the module so the page hot-reloads with the new content.
+ */
+export function projectContent({ dir }: ProjectContentOptions): Plugin {
+  const contentDir = path.resolve(dir);
+  const isContentFile = (file: string) =>
+    path.resolve(file).startsWith(contentDir + path.sep) && file.endsWith('.md');
+
+  const reload = (server: ViteDevServer) => {
+    const mod = server.moduleGraph.getModuleById(RESOLVED_PROJECTS_MODULE_ID);
+    if (!mod) return;
+    server.moduleGraph.invalidateModule(mod);
+    server.ws.send({ type: 'full-reload' });
+  };
+
+  return {
+    name: 'project-content',
+
+    resolveId(id) {
+      return id === PROJECTS_MODULE_ID ? RESOLVED_PROJECTS_MODULE_ID : undefined;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_PROJECTS_MODULE_ID) return undefined;
+      try {
+        const sources = loadProjects(contentDir);
+        sources.forEach(({ file }) => this.addWatchFile(path.resolve(file)));
+        const projects = sources.map(({ project }) => project);
+        return `export default ${JSON.stringify(projects, null, 2)};\n`;
+      } catch (err) {
+        this.error(err instanceof Error ? err.message : String(err));
+      }
+    },
+
+    configureServer(server) {
+      server.watcher.add(contentDir);
+      const onAddOrRemove = (file: string) => {
+        if (isContentFile(file)) reload(server);
+      };
+      server.watcher.on('add', onAddOrRemove);
+      server.watcher.on('unlink', onAddOrRemove);
+    },
+
+    handleHotUpdate({ file, server }) {
+      if (!isContentFile(file)) return undefined;
+      const mod = server.moduleGraph.getModuleById(RESOLVED_PROJECTS_MODULE_ID);
+      if (!mod) return [];
+      server.moduleGraph.invalidateModule(mod);
+      return [mod];
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// Stand-in for a remote Ask backend, for trying the streaming path without network.
+// Start it with `npm run ask:mock`, then run the site with
+// `VITE_ASK_ENDPOINT=http://localhost:8787/ask npm run dev`.
+//
+// Speaks the protocol in src/utils/askProviders.ts: POST JSON in, NDJSON out. A few
+// words in the question trigger the failure paths the client has to survive:
+//   "slow"    → waits longer than the client timeout before answering
+//   "fail"    → HTTP 500
+//   "garbled" → a line that isn't JSON, mid-stream
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.ASK_MOCK_PORT ?? 8787);
+const TOKEN_DELAY_MS = 45;
+const SLOW_DELAY_MS = 20000;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A canned reply, with an action for a couple of recognisable requests. */
+function answerFor({ query = '', currentProjectId = null, lastProjectId = null }) {
+  const q = query.toLowerCase();
+  if (q.includes('metadata')) {
+    return {
+      response: 'Mock backend: turning the metadata panel on for you.',
+      action: { type: 'view', controls: { metadataEnabled: true } },
+    };
+  }
+  if (q.includes('architecture')) {
+    return {
+      response: 'Mock backend: leaning the mix toward architecture.',
+      action: { type: 'filter', mix: { arch: 80, prod: 10, sw: 10 } },
+    };
+  }
+  const projectId = lastProjectId ?? currentProjectId;
+  if (q.includes('open') && projectId != null) {
+    return {
+      response: `Mock backend: opening project ${projectId}.`,
+      action: { type: 'navigate', projectId },
+    };
+  }
+  return {
+    response: `Mock backend here. You asked: “${query}”. Ask about metadata or architecture to see an action come back.`,
+  };
+}
+
+async function readJson(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return JSON.parse(body || '{}');
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+  if (req.method !== 'POST' || req.url !== '/ask') return res.writeHead(404).end();
+
+  let request;
+  try {
+    request = await readJson(req);
+  } catch {
+    return res.writeHead(400).end();
+  }
+  const query = String(request.query ?? '');
+  console.log(`ask: ${JSON.stringify(query)}`);
+
+  if (/\bfail\b/i.test(query)) return res.writeHead(500).end();
+  if (/\bslow\b/i.test(query)) await sleep(SLOW_DELAY_MS);
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+
+  const { response, action } = answerFor(request);
+  const tokens = response.match(/\S+\s*/g) ?? [];
+  for (const [i, text] of tokens.entries()) {
+    if (closed) return;
+    if (i === 2 && /\bgarbled\b/i.test(query)) res.write('{not json\n');
+    res.write(`${JSON.stringify({ type: 'token', text })}\n`);
+    await sleep(TOKEN_DELAY_MS);
+  }
+  if (!closed) res.end(`${JSON.stringify({ type: 'answer', response, action })}\n`);
+});
+
+server.listen(PORT, () => {
+  console.log(`Ask mock server on http://localhost:${PORT}/ask`);
+});
@@ -0,0 +1,183 @@
+// Checks the spoken narrator (src/utils/narratorSpeech.ts) against a fake speechSynthesis
+// and a hand-driven clock, so no browser or audio is needed. Run it with
+// `npm run check:speech`; Vite loads the TypeScript sources.
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+let vite;
+let speech;
+let narratorModule;
+let messages;
+
+before(async () => {
+  vite = await createServer({
+    root,
+    configFile: false,
+    logLevel: 'error',
+    resolve: { alias: { '@': path.join(root, 'src') } },
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true, include: [] },
+  });
+  speech = await vite.ssrLoadModule('/src/utils/narratorSpeech.ts');
+  narratorModule = await vite.ssrLoadModule('/src/utils/narrator.ts');
+  messages = await vite.ssrLoadModule('/src/data/narratorMessages.ts');
+});
+
+after(() => vite?.close());
+
+/** A speechSynthesis stand-in that records what it is asked to do. */
+function fakeSynth(voices = []) {
+  const calls = [];
+  const listeners = new Set();
+  return {
+    calls,
+    spoken: () => calls.filter((c) => c.type === 'speak').map((c) => c.utterance.text),
+    speak: (utterance) => calls.push({ type: 'speak', utterance }),
+    cancel: () => calls.push({ type: 'cancel' }),
+    getVoices: () => voices,
+    addEventListener: (_type, listener) => listeners.add(listener),
+    removeEventListener: (_type, listener) => listeners.delete(listener),
+    fireVoicesChanged: () => listeners.forEach((listener) => listener()),
+    listenerCount: () => listeners.size,
+  };
+}
+
+class FakeUtterance {
+  constructor(text) {
+    this.text = text;
+    this.voice = null;
+    this.lang = '';
+  }
+}
+
+/** Timers that only run when `advance` says so. */
+function fakeClock() {
+  let now = 0;
+  let nextHandle = 0;
+  let timers = [];
+  return {
+    now: () => now,
+    setTimeout(callback, ms) {
+      timers.push({ at: now + ms, callback, handle: ++nextHandle });
+      return nextHandle;
+    },
+    clearTimeout(handle) {
+      timers = timers.filter((t) => t.handle !== handle);
+    },
+    advance(ms) {
+      const until = now + ms;
+      for (;;) {
+        timers.sort((a, b) => a.at - b.at);
+        const next = timers[0];
+        if (!next || next.at > until) break;
+        timers.shift();
+        now = next.at;
+        next.callback();
+      }
+      now = until;
+    },
+  };
+}
+
+function setup({ voice = null } = {}) {
+  const clock = fakeClock();
+  const synth = fakeSynth();
+  const narrator = narratorModule.createNarrator({
+    describe: messages.describeNarratorEvent,
+    initialEvent: { type: 'home-viewed' },
+    clock,
+  });
+  const engine = speech.createSpeechEngine(synth, FakeUtterance);
+  const speaker = speech.createNarratorSpeaker({ narrator, speech: engine, voice, clock });
+  return { clock, synth, narrator, speaker };
+}
+
+test('reads the message on screen as soon as it is switched on', () => {
+  const { synth } = setup();
+  assert.deepEqual(synth.spoken(), [messages.DEFAULT_NARRATOR]);
+});
+
+test('cancels what is still being said before reading a new message', () => {
+  const { synth, narrator } = setup();
+  synth.calls.length = 0;
+  narrator.emit({ type: 'project-viewed', title: 'Hydraulic Commons' });
+  assert.deepEqual(
+    synth.calls.map((c) => c.type),
+    ['cancel', 'speak']
+  );
+  assert.deepEqual(synth.spoken(), [messages.NARRATOR_VIEWING('Hydraulic Commons')]);
+});
+
+test('waits for a streamed answer to finish', () => {
+  const { synth, narrator } = setup();
+  narrator.emit({ type: 'ask-searching', query: 'tools?' });
+  synth.calls.length = 0;
+  narrator.emit({ type: 'ask-answered', response: 'I work', partial: true });
+  narrator.emit({ type: 'ask-answered', response: 'I work with Rhino', partial: true });
+  assert.deepEqual(synth.spoken(), []);
+  assert.equal(synth.calls.filter((c) => c.type === 'cancel').length, 2);
+  narrator.emit({ type: 'ask-answered', response: 'I work with Rhino and React.' });
+  assert.deepEqual(synth.spoken(), ['I work with Rhino and React.']);
+});
+
+test('reads a mix message only once the knob has settled for 900ms', () => {
+  const { synth, narrator, clock } = setup();
+  synth.calls.length = 0;
+  narrator.emit({ type: 'mix-changed', mix: { arch: 50, prod: 25, sw: 25 } });
+  clock.advance(500);
+  narrator.emit({ type: 'mix-changed', mix: { arch: 70, prod: 15, sw: 15 } });
+  clock.advance(899);
+  assert.deepEqual(synth.spoken(), []);
+  clock.advance(1);
+  assert.deepEqual(synth.spoken(), [messages.NARRATOR_ARCH_EMPHASIS]);
+});
+
+test('drops a settling mix message when something else takes the screen', () => {
+  const { synth, narrator, clock } = setup();
+  narrator.release();
+  synth.calls.length = 0;
+  narrator.emit({ type: 'mix-changed', mix: { arch: 70, prod: 15, sw: 15 } });
+  narrator.emit({ type: 'email-copied', email: 'hi@example.com', copied: true });
+  clock.advance(2000);
+  assert.deepEqual(synth.spoken(), [messages.NARRATOR_EMAIL_COPIED('hi@example.com')]);
+});
+
+test('speaks in the chosen voice', () => {
+  const voice = { name: 'Test', lang: 'en-GB', voiceURI: 'test' };
+  const { synth } = setup({ voice });
+  const [call] = synth.calls.filter((c) => c.type === 'speak');
+  assert.equal(call.utterance.voice, voice);
+  assert.equal(call.utterance.lang, 'en-GB');
+});
+
+test('goes silent once disposed', () => {
+  const { synth, narrator, speaker, clock } = setup();
+  narrator.emit({ type: 'mix-changed', mix: { arch: 70, prod: 15, sw: 15 } });
+  synth.calls.length = 0;
+  speaker.dispose();
+  narrator.emit({ type: 'project-viewed', title: 'Synergy' });
+  clock.advance(2000);
+  assert.deepEqual(
+    synth.calls.map((c) => c.type),
+    ['cancel']
+  );
+});
+
+test('reports voice list changes until unsubscribed', () => {
+  const synth = fakeSynth([{ name: 'A', lang: 'en-US', voiceURI: 'a' }]);
+  const engine = speech.createSpeechEngine(synth, FakeUtterance);
+  let changes = 0;
+  const unsubscribe = engine.onVoicesChanged(() => changes++);
+  synth.fireVoicesChanged();
+  unsubscribe();
+  synth.fireVoicesChanged();
+  assert.equal(changes, 1);
+  assert.equal(synth.listenerCount(), 0);
+  assert.equal(engine.getVoices().length, 1);
+});
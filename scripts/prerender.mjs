@@ -0,0 +1,64 @@
+// Writes a static HTML file for every route after `vite build` and the SSR build
+// of src/entry-server.tsx have run. Pure file I/O: no network, no headless browser.
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const distDir = path.join(root, 'dist');
+const serverDir = path.join(distDir, 'server');
+const NOT_FOUND_URL = '/404';
+
+const escapeHtml = (value) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function renderHead({ title, description }, url) {
+  return [
+    `<meta name="description" content="${escapeHtml(description)}" />`,
+    `<meta property="og:title" content="${escapeHtml(title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(description)}" />`,
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:url" content="${escapeHtml(url)}" />`,
+  ].join('\n      ');
+}
+
+function fillTemplate(template, { html, meta }, url) {
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/, `<title>${escapeHtml(meta.title)}</title>`)
+    .replace('<!--app-head-->', renderHead(meta, url))
+    .replace('<!--app-html-->', html);
+}
+
+function outputFileFor(url) {
+  if (url === '/') return path.join(distDir, 'index.html');
+  return path.join(distDir, ...url.split('/').filter(Boolean), 'index.html');
+}
+
+const template = await readFile(path.join(distDir, 'index.html'), 'utf-8');
+const entry = path.join(serverDir, 'entry-server.js');
+const { render, prerenderPaths } = await import(pathToFileURL(entry).href);
+
+for (const url of prerenderPaths) {
+  const file = outputFileFor(url);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, fillTemplate(template, render(url), url));
+  console.log(`prerendered ${url} → ${path.relative(root, file)}`);
+}
+
+// Static hosts serve dist/404.html for unknown paths, so its markup (rendered for /404)
+// rarely matches the URL. It is shown until the client renders over it, not hydrated.
+await writeFile(
+  path.join(distDir, '404.html'),
+  fillTemplate(template, render(NOT_FOUND_URL), NOT_FOUND_URL).replace(
+    '<div id="root">',
+    '<div id="root" data-client-render>'
+  )
+);
+console.log(`prerendered ${NOT_FOUND_URL} → dist/404.html`);
+
+// The SSR bundle is only needed to run this script; keep it out of the deploy.
+await rm(serverDir, { recursive: true, force: true });
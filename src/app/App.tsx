@@ -1,199 +1,445 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  useLocation,
+  useNavigate,
+  useNavigationType,
+  useSearchParams,
+} from 'react-router';
 import { DJBoard } from '@/components/djboard/DJBoard';
+import { AskLogPage } from '@/components/content/AskLogPage';
 import { ContentArea } from '@/components/content/ContentArea';
+import { NotFoundPage } from '@/components/content/NotFoundPage';
+import { CommandPalette } from '@/components/shared/CommandPalette';
+import { NarratorProvider } from '@/components/shared/NarratorProvider';
 import { ScrollToTop } from '@/components/shared/ScrollToTop';
 import { projects } from '@/data/projects';
 import { aboutData } from '@/data/about';
-import {
-  DEFAULT_NARRATOR,
-  IDLE_TIP,
-  NARRATOR_VIEWING,
-  NARRATOR_BALANCED,
-  NARRATOR_ARCH_EXCLUDED,
-  NARRATOR_PROD_EXCLUDED,
-  NARRATOR_SW_EXCLUDED,
-  NARRATOR_ARCH_EMPHASIS,
-  NARRATOR_PROD_EMPHASIS,
-  NARRATOR_SW_EMPHASIS,
-  NARRATOR_MIX,
-  NARRATOR_HERO_ON,
-  NARRATOR_HERO_OFF,
-  NARRATOR_META_ON,
-  NARRATOR_META_OFF,
-  NARRATOR_DETAIL,
-} from '@/data/narratorMessages';
+import { describeNarratorEvent, IDLE_TIPS } from '@/data/narratorMessages';
 import { useDebounce } from '@/hooks/useDebounce';
+import { useIsomorphicLayoutEffect } from '@/hooks/useIsomorphicLayoutEffect';
+import { useKeywordSearch } from '@/hooks/useKeywordSearch';
+import { useMixTransition } from '@/hooks/useMixTransition';
+import { useNarrateChanges } from '@/hooks/useNarrateChanges';
 import { useProjectSort } from '@/hooks/useProjectSort';
+import { localAskLog } from '@/utils/askLog';
 import { updateDisciplineMix } from '@/utils/disciplineMath';
-import { getDetailLabel } from '@/utils/formatters';
-import type { DisciplineMix, ViewControls } from '@/types';
-
-export function App() {
-  const [activeProjectId, setActiveProjectId] = useState<number | null>(null);
-  const [disciplineMix, setDisciplineMix] = useState<DisciplineMix>({
-    arch: 33,
-    prod: 34,
-    sw: 33,
-  });
-  const [viewControls, setViewControls] = useState<ViewControls>({
-    heroEnabled: true,
-    metadataEnabled: false,
-    detailDepth: 25,
-  });
-  const [narratorMessage, setNarratorMessage] = useState(DEFAULT_NARRATOR);
+import { createIdleTips } from '@/utils/idleTips';
+import { createNarrator } from '@/utils/narrator';
+import {
+  GALLERY_IMAGE_PARAM,
+  HOME_PATH,
+  getProjectPath,
+  getRouteMeta,
+  resolveRoute,
+  type ResolvedRoute,
+} from '@/utils/routes';
+import {
+  DEFAULT_DISCIPLINE_MIX,
+  DEFAULT_VIEW_CONTROLS,
+  isSameMix,
+  isSameViewControls,
+  parseBoardState,
+  raiseDetailDepth,
+  serializeBoardState,
+} from '@/utils/boardState';
+import type { AskAction, DisciplineMix, NarratorEvent, ViewControls } from '@/types';
+
+/** Pause between "Searching: …" and the answer, so the question registers. */
+const ASK_THINK_MS = 350;
+
+function routeEvent(route: ResolvedRoute): NarratorEvent {
+  switch (route.kind) {
+    case 'project':
+      return { type: 'project-viewed', title: route.project.title };
+    case 'not-found':
+      return { type: 'page-not-found', pathname: route.pathname };
+    default:
+      return { type: 'home-viewed' };
+  }
+}
+
+/** One event per control that changed, so switching two at once narrates both. */
+function viewEvents(next: ViewControls, prev: ViewControls): NarratorEvent[] {
+  const events: NarratorEvent[] = [];
+  for (const control of ['heroEnabled', 'metadataEnabled'] as const) {
+    if (next[control] !== prev[control]) {
+      events.push({ type: 'view-changed', control, value: next[control] });
+    }
+  }
+  if (next.detailDepth !== prev.detailDepth) {
+    events.push({ type: 'view-changed', control: 'detailDepth', value: next.detailDepth });
+  }
+  return events;
+}
+
+const isSameRoute = (a: ResolvedRoute, b: ResolvedRoute) =>
+  a.kind === b.kind &&
+  (a.kind !== 'project' || (b.kind === 'project' && a.project.id === b.project.id)) &&
+  (a.kind !== 'not-found' || (b.kind === 'not-found' && a.pathname === b.pathname));
+
+export interface AppProps {
+  /**
+   * Set when hydrating prerendered markup, which was rendered at the default board: the
+   * board starts there too and takes the URL's state straight after hydrating.
+   */
+  hydrating?: boolean;
+}
+
+export function App({ hydrating = false }: AppProps) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const navigationType = useNavigationType();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+  const [urlBoard] = useState(() => parseBoardState(searchParams));
+  const initialBoard = hydrating
+    ? { disciplineMix: DEFAULT_DISCIPLINE_MIX, viewControls: DEFAULT_VIEW_CONTROLS }
+    : urlBoard;
+  /** When set, the next board-state URL write pushes a history entry instead of replacing. */
+  const pushNextBoardWriteRef = useRef(false);
+  /** Back/forward navigations so far, and how many had happened when the board last changed. */
+  const popCountRef = useRef(0);
+  const boardChangedAtPopRef = useRef(0);
+  const knobGestureActiveRef = useRef(false);
+  const route = useMemo(
+    () => resolveRoute(location.pathname, projects),
+    [location.pathname]
+  );
+  const activeProjectId = route.kind === 'project' ? route.project.id : null;
+  const [disciplineMix, setDisciplineMix] = useState<DisciplineMix>(
+    initialBoard.disciplineMix
+  );
+  const [viewControls, setViewControls] = useState<ViewControls>(
+    initialBoard.viewControls
+  );
+  const [narrator] = useState(() =>
+    createNarrator({
+      describe: describeNarratorEvent,
+      initialEvent: { type: 'home-viewed' },
+      idleTips: createIdleTips({ tips: IDLE_TIPS }),
+    })
+  );
   const contentScrollRef = useRef<HTMLDivElement>(null);
-  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const isInitialMount = useRef(true);
+  const askTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Aborts the answer in flight, e.g. a remote one still streaming. */
+  const askAbortRef = useRef<AbortController | null>(null);
+  const { ask } = useKeywordSearch(projects);
+  const { animateTo: animateMixTo, cancel: cancelMixTransition } = useMixTransition(
+    disciplineMix,
+    setDisciplineMix
+  );
   const debouncedMix = useDebounce(disciplineMix, 150);
   const sortedProjects = useProjectSort(debouncedMix);
+  const boardState = useMemo(
+    () => ({ disciplineMix, viewControls }),
+    [disciplineMix, viewControls]
+  );
+  const debouncedBoardState = useDebounce(boardState, 150);
+  const firstBoardStateRef = useRef(boardState);
+
+  useIsomorphicLayoutEffect(() => {
+    if (!hydrating) return;
+    setDisciplineMix(urlBoard.disciplineMix);
+    setViewControls(urlBoard.viewControls);
+  }, []);
 
   const activeIndex =
     activeProjectId == null
       ? 0
       : sortedProjects.findIndex((p) => p.id === activeProjectId);
   const safeActiveIndex = activeIndex >= 0 ? activeIndex : 0;
-  const currentProject =
-    activeProjectId == null
-      ? projects[0]
-      : projects.find((p) => p.id === activeProjectId) ?? projects[0];
-
-  const resetIdleTimer = useCallback(() => {
-    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
-    idleTimerRef.current = setTimeout(
-      () => setNarratorMessage(IDLE_TIP),
-      10000
-    );
-  }, []);
+  const currentProject = route.kind === 'project' ? route.project : projects[0];
 
   const handleDisciplineChange = useCallback(
     (knob: 'arch' | 'prod' | 'sw', newValue: number) => {
+      cancelMixTransition();
+      narrator.release(knob);
+      if (!knobGestureActiveRef.current) pushNextBoardWriteRef.current = true;
       setDisciplineMix((prev) => updateDisciplineMix(prev, knob, newValue));
-      resetIdleTimer();
     },
-    [resetIdleTimer]
+    [cancelMixTransition, narrator]
+  );
+
+  /**
+   * Navigates to a page, carrying the current board state along in the query string.
+   * `base` holds any other parameters the new page should open with.
+   */
+  const navigateTo = useCallback(
+    (pathname: string, base?: URLSearchParams) => {
+      if (pathname === location.pathname) return;
+      const search = serializeBoardState(boardState, base).toString();
+      navigate({ pathname, search: search ? `?${search}` : '' });
+    },
+    [boardState, location.pathname, navigate]
+  );
+
+  const navigateToProject = useCallback(
+    (id: number) => {
+      const project = projects.find((p) => p.id === id);
+      if (project) navigateTo(getProjectPath(project));
+    },
+    [navigateTo]
+  );
+
+  const openProject = useCallback(
+    (id: number) => {
+      narrator.release();
+      navigateToProject(id);
+    },
+    [narrator, navigateToProject]
   );
 
   const handleProjectChange = useCallback((index: number) => {
     const project = sortedProjects[index];
-    if (project) setActiveProjectId(project.id);
-  }, [sortedProjects]);
+    narrator.release('slot');
+    if (project) navigateTo(getProjectPath(project));
+  }, [narrator, navigateTo, sortedProjects]);
+
+  const handleGoHome = useCallback(() => {
+    narrator.release();
+    navigateTo(HOME_PATH);
+  }, [narrator, navigateTo]);
 
   const handleControlChange = useCallback(
     (key: keyof ViewControls, value: unknown) => {
+      narrator.release(key);
+      if (!knobGestureActiveRef.current) pushNextBoardWriteRef.current = true;
       setViewControls((prev) => ({ ...prev, [key]: value }));
-      resetIdleTimer();
     },
-    [resetIdleTimer]
+    [narrator]
   );
 
-  useEffect(() => {
-    if (isInitialMount.current) {
-      isInitialMount.current = false;
-      return;
-    }
-    if (activeProjectId == null) {
-      setNarratorMessage(DEFAULT_NARRATOR);
-      resetIdleTimer();
-      return;
-    }
-    setNarratorMessage(NARRATOR_VIEWING(currentProject.title));
-    resetIdleTimer();
-  }, [activeProjectId, currentProject.title, resetIdleTimer]);
+  /** Carries out an Ask answer on the board, as if the visitor had used the controls. */
+  const runAskAction = useCallback(
+    (action: AskAction) => {
+      switch (action.type) {
+        case 'navigate':
+          navigateToProject(action.projectId);
+          break;
+        case 'offer':
+          // Waits for a "yes" before opening anything.
+          break;
+        case 'detail':
+          // Opening another project already adds a history entry; the deeper detail rides on it.
+          if (action.projectId === activeProjectId) pushNextBoardWriteRef.current = true;
+          setViewControls((prev) => ({ ...prev, detailDepth: raiseDetailDepth(prev.detailDepth) }));
+          navigateToProject(action.projectId);
+          break;
+        case 'filter':
+          pushNextBoardWriteRef.current = true;
+          animateMixTo(action.mix);
+          break;
+        case 'view':
+          pushNextBoardWriteRef.current = true;
+          setViewControls((prev) => ({ ...prev, ...action.controls }));
+          break;
+        case 'home':
+          navigateTo(HOME_PATH);
+          break;
+        case 'back':
+          navigate(-1);
+          break;
+        case 'gallery': {
+          const image = String(action.index + 1);
+          if (action.projectId === activeProjectId) {
+            setSearchParams((prev) => {
+              const params = new URLSearchParams(prev);
+              params.set(GALLERY_IMAGE_PARAM, image);
+              return params;
+            });
+          } else {
+            const project = projects.find((p) => p.id === action.projectId);
+            if (project) {
+              navigateTo(getProjectPath(project), new URLSearchParams({ [GALLERY_IMAGE_PARAM]: image }));
+            }
+          }
+          break;
+        }
+        case 'copy-email':
+          // Without clipboard access, say the address instead so it can be copied by hand.
+          Promise.resolve()
+            .then(() => navigator.clipboard.writeText(action.email))
+            .then(
+              () => narrator.emit({ type: 'email-copied', email: action.email, copied: true }),
+              () => narrator.emit({ type: 'email-copied', email: action.email, copied: false })
+            );
+          break;
+      }
+    },
+    [activeProjectId, animateMixTo, narrator, navigate, navigateTo, navigateToProject, setSearchParams]
+  );
+
+  /** Drops a pending or streaming answer so it can't land after something newer. */
+  const cancelAsk = useCallback(() => {
+    if (askTimerRef.current) clearTimeout(askTimerRef.current);
+    askAbortRef.current?.abort();
+    askAbortRef.current = null;
+  }, []);
+
+  /**
+   * Answers in the narrator, then acts on the answer's action (see `AskAction`). A remote
+   * answer is shown as it streams in. The answer outranks the narration those changes
+   * trigger, so it stays up until it has been read.
+   */
+  const handleAsk = useCallback(
+    (question: string) => {
+      cancelAsk();
+      narrator.release();
+      narrator.emit({ type: 'ask-searching', query: question });
+      askTimerRef.current = setTimeout(() => {
+        const controller = new AbortController();
+        askAbortRef.current = controller;
+        let streamed = '';
+        ask(question, activeProjectId, {
+          signal: controller.signal,
+          onToken: (text) => {
+            streamed += text;
+            narrator.emit({ type: 'ask-answered', response: streamed, partial: true });
+          },
+        }).then(
+          (result) => {
+            if (controller.signal.aborted) return;
+            askAbortRef.current = null;
+            narrator.emit({ type: 'ask-answered', response: result.response });
+            if (result.action) runAskAction(result.action);
+          },
+          // Only rejects when aborted: a newer question or command took over.
+          () => {}
+        );
+      }, ASK_THINK_MS);
+    },
+    [activeProjectId, ask, cancelAsk, narrator, runAskAction]
+  );
+
+  /**
+   * Runs a command-palette pick. It releases the narrator like a touched control, so the
+   * change is narrated the same way as turning the knob or flipping the switch.
+   */
+  const handleCommand = useCallback(
+    (action: AskAction) => {
+      cancelAsk();
+      narrator.release();
+      runAskAction(action);
+    },
+    [cancelAsk, narrator, runAskAction]
+  );
+
+  /** A whole knob drag becomes one history entry: pushed on its first write, replaced after. */
+  const handleKnobGesture = useCallback((phase: 'start' | 'end') => {
+    knobGestureActiveRef.current = phase === 'start';
+    if (phase === 'start') pushNextBoardWriteRef.current = true;
+  }, []);
+
+  useNarrateChanges(narrator, route, (next) => [routeEvent(next)], isSameRoute);
+  // The URL's board state, applied after hydrating, is where the visitor started rather
+  // than a change to narrate.
+  useNarrateChanges(
+    narrator,
+    disciplineMix,
+    (mix) => (mix === urlBoard.disciplineMix ? [] : [{ type: 'mix-changed', mix }]),
+    isSameMix
+  );
+  useNarrateChanges(
+    narrator,
+    viewControls,
+    (next, prev) => (next === urlBoard.viewControls ? [] : viewEvents(next, prev)),
+    isSameViewControls
+  );
 
-  const prevDisciplineMixRef = useRef<DisciplineMix | null>(null);
   useEffect(() => {
-    const prev = prevDisciplineMixRef.current;
-    prevDisciplineMixRef.current = disciplineMix;
-    if (prev === null) return;
-    const { arch, prod, sw } = disciplineMix;
-    const balanced =
-      Math.abs(arch - 33) <= 2 &&
-      Math.abs(prod - 33) <= 2 &&
-      Math.abs(sw - 34) <= 2;
-    const oneDominates = arch > 60 || prod > 60 || sw > 60;
-    const oneExcluded = arch === 0 || prod === 0 || sw === 0;
-    if (balanced) {
-      setNarratorMessage(NARRATOR_BALANCED);
-    } else if (oneExcluded) {
-      if (arch === 0) setNarratorMessage(NARRATOR_ARCH_EXCLUDED);
-      else if (prod === 0) setNarratorMessage(NARRATOR_PROD_EXCLUDED);
-      else setNarratorMessage(NARRATOR_SW_EXCLUDED);
-    } else if (oneDominates) {
-      if (arch > 60) setNarratorMessage(NARRATOR_ARCH_EMPHASIS);
-      else if (prod > 60) setNarratorMessage(NARRATOR_PROD_EMPHASIS);
-      else setNarratorMessage(NARRATOR_SW_EMPHASIS);
-    } else {
-      setNarratorMessage(NARRATOR_MIX(arch, prod, sw));
-    }
-    resetIdleTimer();
-  }, [disciplineMix, resetIdleTimer]);
-
-  const prevViewRef = useRef({
-    heroEnabled: viewControls.heroEnabled,
-    metadataEnabled: viewControls.metadataEnabled,
-    detailDepth: viewControls.detailDepth,
-  });
+    document.title = getRouteMeta(route).title;
+  }, [route]);
+
   useEffect(() => {
-    const { heroEnabled, metadataEnabled, detailDepth } = viewControls;
-    const prev = prevViewRef.current;
-    if (heroEnabled !== prev.heroEnabled) {
-      prevViewRef.current = { ...prev, heroEnabled };
-      setNarratorMessage(heroEnabled ? NARRATOR_HERO_ON : NARRATOR_HERO_OFF);
-      resetIdleTimer();
-    }
-    if (metadataEnabled !== prev.metadataEnabled) {
-      prevViewRef.current = { ...prev, metadataEnabled };
-      setNarratorMessage(
-        metadataEnabled ? NARRATOR_META_ON : NARRATOR_META_OFF
-      );
-      resetIdleTimer();
-    }
-    if (detailDepth !== prev.detailDepth) {
-      prevViewRef.current = { ...prev, detailDepth };
-      setNarratorMessage(NARRATOR_DETAIL(getDetailLabel(detailDepth)));
-      resetIdleTimer();
-    }
-  }, [
-    viewControls.heroEnabled,
-    viewControls.metadataEnabled,
-    viewControls.detailDepth,
-    resetIdleTimer,
-  ]);
+    boardChangedAtPopRef.current = popCountRef.current;
+  }, [boardState]);
 
+  // State → URL. Keyed on the debounced state only, so a back/forward navigation
+  // (which changes the URL first) is never overwritten by the state it replaced. A write
+  // still pending from before the navigation belongs to the entry left behind: drop it.
   useEffect(() => {
-    resetIdleTimer();
-    return () => {
-      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    const push = pushNextBoardWriteRef.current;
+    // A dropped write uses up the push too (a toggle flipped back, a drag that ended where
+    // it began), or the next unrelated write would push instead of replace. A drag still
+    // under way keeps it for when it first moves the board.
+    const drop = () => {
+      if (!knobGestureActiveRef.current) pushNextBoardWriteRef.current = false;
     };
-  }, [resetIdleTimer]);
+    if (boardChangedAtPopRef.current !== popCountRef.current) return drop();
+    // The default board hydration starts from; the URL's own state is about to replace it.
+    if (hydrating && debouncedBoardState === firstBoardStateRef.current) return drop();
+    const current = searchParamsRef.current;
+    const next = serializeBoardState(debouncedBoardState, current);
+    if (next.toString() === current.toString()) return drop();
+    pushNextBoardWriteRef.current = false;
+    setSearchParams(next, { replace: !push });
+  }, [debouncedBoardState, setSearchParams]);
+
+  // URL → state on back/forward. The narrator picks up the resulting changes
+  // exactly as it does for the physical controls.
+  useEffect(() => {
+    if (navigationType !== 'POP') return;
+    popCountRef.current++;
+    cancelMixTransition();
+    const next = parseBoardState(searchParams);
+    setDisciplineMix((prev) =>
+      isSameMix(prev, next.disciplineMix) ? prev : next.disciplineMix
+    );
+    setViewControls((prev) =>
+      isSameViewControls(prev, next.viewControls) ? prev : next.viewControls
+    );
+  }, [location.key]);
+
+  useEffect(() => cancelAsk, [cancelAsk]);
 
   return (
-    <div className="app">
-      <DJBoard
-        projects={sortedProjects}
-        activeIndex={safeActiveIndex}
-        onProjectChange={handleProjectChange}
-        disciplineMix={disciplineMix}
-        onDisciplineChange={handleDisciplineChange}
-        viewControls={viewControls}
-        onControlChange={handleControlChange}
-        narratorMessage={narratorMessage}
-        onGoHome={() => setActiveProjectId(null)}
-      />
-      <main ref={contentScrollRef} className="content">
-        <ScrollToTop trigger={activeProjectId} scrollRef={contentScrollRef} />
-        <ContentArea
-          project={currentProject}
-          activeProjectId={activeProjectId}
-          aboutData={aboutData}
-          viewControls={viewControls}
+    <NarratorProvider narrator={narrator}>
+      <div className="app">
+        <DJBoard
           projects={sortedProjects}
-          architectureEmphasis={disciplineMix.arch}
-          productDesignEmphasis={disciplineMix.prod}
-          softwareEmphasis={disciplineMix.sw}
-          onOpenProject={(id) => setActiveProjectId(id)}
+          activeIndex={safeActiveIndex}
+          onProjectChange={handleProjectChange}
+          disciplineMix={disciplineMix}
+          onDisciplineChange={handleDisciplineChange}
+          viewControls={viewControls}
+          onControlChange={handleControlChange}
+          onKnobGesture={handleKnobGesture}
+          onAsk={handleAsk}
+          onGoHome={handleGoHome}
+        />
+        <main ref={contentScrollRef} className="content">
+          <ScrollToTop trigger={location.pathname} scrollRef={contentScrollRef} />
+          {route.kind === 'not-found' ? (
+            <NotFoundPage
+              pathname={route.pathname}
+              projects={projects}
+              onGoHome={handleGoHome}
+            />
+          ) : route.kind === 'ask-log' ? (
+            <AskLogPage store={localAskLog} />
+          ) : (
+            <ContentArea
+              project={currentProject}
+              activeProjectId={activeProjectId}
+              aboutData={aboutData}
+              viewControls={viewControls}
+              projects={sortedProjects}
+              architectureEmphasis={disciplineMix.arch}
+              productDesignEmphasis={disciplineMix.prod}
+              softwareEmphasis={disciplineMix.sw}
+              onOpenProject={openProject}
+            />
+          )}
+        </main>
+        <CommandPalette
+          projects={projects}
+          about={aboutData}
+          viewControls={viewControls}
+          disciplineMix={disciplineMix}
+          onAction={handleCommand}
         />
-      </main>
-    </div>
+      </div>
+    </NarratorProvider>
   );
 }
@@ -0,0 +1,89 @@
+import { useEffect, useMemo, useState } from 'react';
+import { groupUnanswered, type AskLogStore, type UnansweredQuestion } from '@/utils/askLog';
+
+export interface AskLogPageProps {
+  store: AskLogStore;
+}
+
+const formatWhen = (iso: string) => iso.slice(0, 16).replace('T', ' ');
+
+function downloadJson(name: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Author view of questions Ask answered with its fallback or on a weak match, grouped by
+ * wording and most frequent first. Reads this browser's log only; exported JSON carries
+ * suggested keywords for new `KeywordMatch` entries in src/data/keywords.ts.
+ */
+export function AskLogPage({ store }: AskLogPageProps) {
+  // Read after mount: storage only exists in the browser.
+  const [entries, setEntries] = useState<UnansweredQuestion[]>([]);
+  useEffect(() => setEntries(store.read()), [store]);
+  const groups = useMemo(() => groupUnanswered(entries), [entries]);
+
+  const handleExport = () => {
+    const generatedAt = new Date().toISOString();
+    downloadJson(`ask-log-${generatedAt.slice(0, 10)}.json`, { generatedAt, groups, entries });
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(`Delete all ${entries.length} logged questions from this browser?`)) return;
+    store.clear();
+    setEntries([]);
+  };
+
+  return (
+    <article className="page page-ask-log">
+      <header className="proj-head">
+        <div className="proj-eyebrow">AUTHOR · ASK LOG</div>
+        <h1 className="proj-title">Unanswered questions.</h1>
+        <p className="proj-tagline">
+          {entries.length === 0
+            ? 'Nothing logged in this browser yet. Questions Ask can’t answer, or only guesses at, show up here.'
+            : `${entries.length} logged in this browser, ${groups.length} distinct. Add the frequent ones to the keyword dictionary.`}
+        </p>
+      </header>
+
+      {groups.length > 0 && (
+        <section className="proj-section">
+          <h2>By frequency</h2>
+          <ul className="kv-list ask-log-list">
+            {groups.map((group) => (
+              <li key={group.key}>
+                <span className="kv-k">×{group.count}</span>
+                <span className="kv-v">
+                  <span className="ask-log-query">{group.example}</span>
+                  <span className="ask-log-meta">
+                    {group.unanswered > 0 && `${group.unanswered} unanswered`}
+                    {group.unanswered > 0 && group.lowConfidence > 0 && ' · '}
+                    {group.lowConfidence > 0 && `${group.lowConfidence} weak`}
+                    {' · last '}
+                    {formatWhen(group.lastAskedAt)}
+                    {group.variants.length > 1 && ` · also “${group.variants.slice(1, 3).join('”, “')}”`}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <p className="ask-log-actions">
+        <button type="button" className="nf-home" onClick={handleExport} disabled={entries.length === 0}>
+          Export JSON
+        </button>
+        <button type="button" className="nf-home" onClick={handleClear} disabled={entries.length === 0}>
+          Clear log
+        </button>
+      </p>
+      <footer className="page-footer"><span>DANIEL · ASK LOG</span><span>—</span><span>{new Date().getFullYear()}</span></footer>
+    </article>
+  );
+}
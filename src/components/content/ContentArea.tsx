@@ -39,6 +39,7 @@ export function ContentArea({
   if (isHero) {
     return (
       <HeroPage
+        projects={projects}
         architectureEmphasis={architectureEmphasis}
         productDesignEmphasis={productDesignEmphasis}
         softwareEmphasis={softwareEmphasis}
@@ -0,0 +1,128 @@
+import { useRef } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { GalleryImage } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/app/components/ui/dialog';
+import { getPlaceholderImage } from '@/utils/placeholders';
+
+export interface GalleryLightboxProps {
+  images: GalleryImage[];
+  projectTitle: string;
+  /** Zero-based index of the image on screen; null keeps the lightbox closed. */
+  index: number | null;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+/** Horizontal travel (px) a touch has to cover before it counts as a swipe. */
+const SWIPE_THRESHOLD = 40;
+
+/**
+ * Full-size viewer for gallery images. It covers the content column and leaves the board
+ * usable, so Home (or switching project) closes it by navigating away; Escape closes it too.
+ */
+export function GalleryLightbox({
+  images,
+  projectTitle,
+  index,
+  onIndexChange,
+  onClose,
+}: GalleryLightboxProps) {
+  const swipeStartRef = useRef<{ x: number; y: number } | null>(null);
+  const image = index == null ? undefined : images[index];
+  const count = images.length;
+
+  const step = (delta: number) => {
+    if (index == null) return;
+    onIndexChange(index + delta);
+  };
+
+  const counter = index == null
+    ? ''
+    : `${String(index + 1).padStart(2, '0')} / ${String(count).padStart(2, '0')}`;
+
+  return (
+    <Dialog open={image != null} onOpenChange={(open) => !open && onClose()} modal={false}>
+      {image && (
+        <DialogContent
+          className="lightbox"
+          onInteractOutside={(e) => e.preventDefault()}
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowRight') {
+              e.preventDefault();
+              step(1);
+            } else if (e.key === 'ArrowLeft') {
+              e.preventDefault();
+              step(-1);
+            }
+          }}
+        >
+          <DialogTitle className="lightbox-title">
+            {projectTitle} · <span className="lightbox-counter">{counter}</span>
+          </DialogTitle>
+
+          <div
+            className="lightbox-stage"
+            onPointerDown={(e) => {
+              if (e.pointerType === 'mouse') return;
+              swipeStartRef.current = { x: e.clientX, y: e.clientY };
+            }}
+            onPointerUp={(e) => {
+              const start = swipeStartRef.current;
+              swipeStartRef.current = null;
+              if (!start) return;
+              const dx = e.clientX - start.x;
+              const dy = e.clientY - start.y;
+              if (Math.abs(dx) < SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy)) return;
+              step(dx < 0 ? 1 : -1);
+            }}
+            onPointerCancel={() => {
+              swipeStartRef.current = null;
+            }}
+          >
+            <img
+              key={image.src}
+              src={image.src}
+              alt={image.title}
+              draggable={false}
+              onError={(e) => {
+                const target = e.currentTarget;
+                target.src = getPlaceholderImage(1600, 1000, image.title);
+                target.onerror = null;
+              }}
+            />
+          </div>
+
+          <div className="lightbox-bar">
+            <button
+              type="button"
+              className="lightbox-nav"
+              onClick={() => step(-1)}
+              disabled={count < 2}
+              aria-label="Previous image"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <DialogDescription className="lightbox-caption">
+              <span className="gallery-num">{counter}</span>
+              {image.title}
+            </DialogDescription>
+            <button
+              type="button"
+              className="lightbox-nav"
+              onClick={() => step(1)}
+              disabled={count < 2}
+              aria-label="Next image"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
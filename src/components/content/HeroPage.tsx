@@ -1,159 +1,54 @@
 import { useEffect, useMemo, useState } from 'react';
+import type { CardLayout, Project } from '@/types';
+import { heroShowcaseSlides } from '@/data/heroShowcase';
+import { HeroShowcase } from './HeroShowcase';
 
 export interface HeroPageProps {
+  projects: Project[];
   architectureEmphasis: number;
   productDesignEmphasis: number;
   softwareEmphasis: number;
   onProjectChange: (id: number) => void;
 }
 
-interface LandingProject {
-  id: number;
-  title: string;
-  category: string;
-  A: number;
-  P: number;
-  S: number;
-  span: number;
-}
-
-interface CardLayout {
-  colSpan: number;
-  rowSpan: number;
-}
-
 interface CardData extends CardLayout {
   cardIndex: number;
   grayValue: number;
+  image?: string;
 }
 
-const projects: LandingProject[] = [
-  {
-    id: 0,
-    title: 'About Me',
-    category: 'Personal',
-    A: 33,
-    P: 33,
-    S: 34,
-    span: 2,
-  },
-  {
-    id: 1,
-    title: 'Pressure Ulcer Medical Device',
-    category: 'Medical Product Design',
-    A: 5,
-    P: 85,
-    S: 10,
-    span: 1,
-  },
-  {
-    id: 2,
-    title: 'Search by Assembly: Node-Based Precedent Engine',
-    category: 'Research Software',
-    A: 20,
-    P: 25,
-    S: 55,
-    span: 1,
-  },
-  {
-    id: 3,
-    title: 'Hydraulic Commons: Water Infrastructure',
-    category: 'Infrastructural Architecture',
-    A: 70,
-    P: 15,
-    S: 15,
-    span: 2,
-  },
-  {
-    id: 4,
-    title: 'Synergy with the Cosmos',
-    category: 'Zero-Mile Architecture',
-    A: 75,
-    P: 10,
-    S: 15,
-    span: 1,
-  },
-  {
-    id: 5,
-    title: 'Dougherty Arts Center Renovation',
-    category: 'Adaptive Reuse',
-    A: 80,
-    P: 10,
-    S: 10,
-    span: 2,
-  },
+/** Used for projects whose frontmatter declares no `landing.cards`. */
+const DEFAULT_CARD_LAYOUT: CardLayout[] = [
+  { colSpan: 2, rowSpan: 2 },
+  { colSpan: 1, rowSpan: 1 },
+  { colSpan: 1, rowSpan: 1 },
+  { colSpan: 1, rowSpan: 2 },
+  { colSpan: 2, rowSpan: 1 },
+  { colSpan: 1, rowSpan: 1 },
 ];
 
-const projectCardLayouts: Record<number, CardLayout[]> = {
-  0: [
-    { colSpan: 2, rowSpan: 2 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 2 },
-    { colSpan: 2, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-  ],
-  1: [
-    { colSpan: 1, rowSpan: 2 },
-    { colSpan: 2, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 2, rowSpan: 2 },
-    { colSpan: 1, rowSpan: 1 },
-  ],
-  2: [
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 2 },
-    { colSpan: 2, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 2, rowSpan: 1 },
-  ],
-  3: [
-    { colSpan: 3, rowSpan: 2 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 2 },
-    { colSpan: 2, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-  ],
-  4: [
-    { colSpan: 2, rowSpan: 2 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 2, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-  ],
-  5: [
-    { colSpan: 1, rowSpan: 2 },
-    { colSpan: 2, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 1, rowSpan: 1 },
-    { colSpan: 3, rowSpan: 2 },
-    { colSpan: 1, rowSpan: 1 },
-  ],
-};
-
 const getWeightedScore = (
-  project: LandingProject,
+  project: Project,
   A: number,
   P: number,
   S: number
 ) => {
-  return (project.A * A + project.P * P + project.S * S) / 100;
+  const { arch, prod, sw } = project.disciplines;
+  return (arch * A + prod * P + sw * S) / 100;
 };
 
-function getProjectCards(project: LandingProject): CardData[] {
-  return (projectCardLayouts[project.id] ?? []).map((layout, i) => ({
+function getProjectCards(project: Project): CardData[] {
+  const layouts = project.landing?.cards ?? DEFAULT_CARD_LAYOUT;
+  return layouts.map((layout, i) => ({
     ...layout,
     cardIndex: i,
     grayValue: 80 + ((project.id * 4 + i * 2) % 14),
+    image: project.landing?.images?.[i],
   }));
 }
 
 interface GalleryCardProps {
-  project: LandingProject;
+  project: Project;
   card: CardData;
   onClick: () => void;
   isReordering: boolean;
@@ -182,11 +77,12 @@ function GalleryCard({ project, card, onClick, isReordering }: GalleryCardProps)
         cursor: 'pointer',
         borderRadius: '3px',
         overflow: 'hidden',
-        // Future: backgroundImage: `url(/images/projects/${project.id}/gallery_${card.cardIndex}.jpg)`
+        // Images come from `landing.images` in the project's frontmatter.
         // Recommended dimensions per colSpan × rowSpan:
         // 1×1: 600×360px, 2×1: 1200×360px, 3×1: 1800×360px
         // 1×2: 600×720px, 2×2: 1200×720px, 3×2: 1800×720px
         backgroundColor: `hsl(0, 0%, ${card.grayValue}%)`,
+        backgroundImage: card.image ? `url("${card.image}")` : undefined,
         backgroundSize: 'cover',
         backgroundPosition: 'center',
         transition: 'transform 220ms ease, opacity 300ms ease',
@@ -218,7 +114,7 @@ function GalleryCard({ project, card, onClick, isReordering }: GalleryCardProps)
               backdropFilter: 'blur(4px)',
             }}
           >
-            {String(project.id).padStart(2, '0')} · {project.category}
+            {String(project.id).padStart(2, '0')} · {project.metadata.category}
           </span>
         </div>
       )}
@@ -286,6 +182,7 @@ function GalleryCard({ project, card, onClick, isReordering }: GalleryCardProps)
 }
 
 export function HeroPage({
+  projects,
   architectureEmphasis,
   productDesignEmphasis,
   softwareEmphasis,
@@ -307,7 +204,7 @@ export function HeroPage({
           softwareEmphasis
         )
     );
-  }, [architectureEmphasis, productDesignEmphasis, softwareEmphasis]);
+  }, [projects, architectureEmphasis, productDesignEmphasis, softwareEmphasis]);
 
   const sortKey = useMemo(
     () => sortedProjects.map((project) => project.id).join('-'),
@@ -452,6 +349,8 @@ export function HeroPage({
         </div>
       </section>
 
+      <HeroShowcase slides={heroShowcaseSlides} onProjectChange={onProjectChange} />
+
       <section
         style={{
           padding: '60px 48px 100px 48px',
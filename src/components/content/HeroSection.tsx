@@ -1,24 +1,80 @@
+import { useEffect, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import type { HeroVideo } from '@/types';
+import { usePrefersReducedMotion } from '@/hooks/usePrefersReducedMotion';
 import { getPlaceholderImage } from '@/utils/placeholders';
 
 export interface HeroSectionProps {
   src: string;
   title: string;
+  video?: HeroVideo;
 }
 
-export function HeroSection({ src, title }: HeroSectionProps) {
+/**
+ * Project hero. With a `video` it plays muted and looped with a pause control; the image
+ * is shown instead when the video fails to load or the visitor prefers reduced motion.
+ */
+export function HeroSection({ src, title, video }: HeroSectionProps) {
+  const reducedMotion = usePrefersReducedMotion();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoFailed, setVideoFailed] = useState(false);
+  const [paused, setPaused] = useState(false);
+
+  useEffect(() => {
+    setVideoFailed(false);
+    setPaused(false);
+  }, [video?.src]);
+
+  const showVideo = video && !videoFailed && !reducedMotion;
+
+  const togglePlayback = () => {
+    const el = videoRef.current;
+    if (!el) return;
+    if (el.paused) void el.play().catch(() => setVideoFailed(true));
+    else el.pause();
+  };
+
   return (
-    <div className="w-full aspect-video bg-gray-200 rounded-lg mb-8 overflow-hidden">
-      <img
-        src={src}
-        alt={title}
-        className="w-full h-full object-cover"
-        loading="lazy"
-        onError={(e) => {
-          const target = e.currentTarget;
-          target.src = getPlaceholderImage(1920, 1080, title);
-          target.onerror = null;
-        }}
-      />
+    <div className="relative w-full aspect-video bg-gray-200 rounded-lg mb-8 overflow-hidden">
+      {showVideo ? (
+        <>
+          <video
+            key={video.src}
+            ref={videoRef}
+            src={video.src}
+            poster={video.poster ?? src}
+            className="w-full h-full object-cover"
+            autoPlay
+            muted
+            loop
+            playsInline
+            aria-label={title}
+            onError={() => setVideoFailed(true)}
+            onPlay={() => setPaused(false)}
+            onPause={() => setPaused(true)}
+          />
+          <button
+            type="button"
+            onClick={togglePlayback}
+            aria-label={paused ? 'Play hero video' : 'Pause hero video'}
+            className="absolute right-3 bottom-3 flex size-8 items-center justify-center rounded-full bg-black/55 text-white transition-colors hover:bg-black/75"
+          >
+            {paused ? <Play size={14} /> : <Pause size={14} />}
+          </button>
+        </>
+      ) : (
+        <img
+          src={src}
+          alt={title}
+          className="w-full h-full object-cover"
+          loading="lazy"
+          onError={(e) => {
+            const target = e.currentTarget;
+            target.src = getPlaceholderImage(1920, 1080, title);
+            target.onerror = null;
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import type { HeroShowcaseSlide } from '@/data/heroShowcase';
+import { usePrefersReducedMotion } from '@/hooks/usePrefersReducedMotion';
+import { getPlaceholderImage } from '@/utils/placeholders';
+
+export interface HeroShowcaseProps {
+  slides: HeroShowcaseSlide[];
+  onProjectChange: (id: number) => void;
+  /** Time each slide stays up before advancing, in ms. */
+  interval?: number;
+}
+
+const FADE_MS = 700;
+
+/**
+ * Crossfading slideshow of `heroShowcaseSlides`. Advances on a timer that pauses while the
+ * pointer or keyboard focus is inside it (and never runs under reduced motion); ←/→ step
+ * through slides and clicking the image opens the slide's project.
+ */
+export function HeroShowcase({
+  slides,
+  onProjectChange,
+  interval = 5000,
+}: HeroShowcaseProps) {
+  const reducedMotion = usePrefersReducedMotion();
+  const [index, setIndex] = useState(0);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const count = slides.length;
+  const paused = hovered || focused || reducedMotion;
+
+  const go = (next: number) => setIndex(((next % count) + count) % count);
+
+  useEffect(() => {
+    if (paused || count < 2) return;
+    const timeoutId = window.setTimeout(() => setIndex((i) => (i + 1) % count), interval);
+    return () => window.clearTimeout(timeoutId);
+  }, [index, paused, count, interval]);
+
+  if (count === 0) return null;
+  const active = slides[Math.min(index, count - 1)];
+
+  return (
+    <section
+      aria-roledescription="carousel"
+      aria-label="Selected work"
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onFocus={() => setFocused(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocused(false);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'ArrowRight') {
+          e.preventDefault();
+          go(index + 1);
+        } else if (e.key === 'ArrowLeft') {
+          e.preventDefault();
+          go(index - 1);
+        }
+      }}
+      style={{
+        padding: '60px 48px 0 48px',
+        backgroundColor: '#f5f4f2',
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => onProjectChange(active.projectId)}
+        aria-label={`Open ${active.title}`}
+        style={{
+          display: 'block',
+          position: 'relative',
+          width: '100%',
+          aspectRatio: '16 / 9',
+          padding: 0,
+          border: 'none',
+          borderRadius: '3px',
+          overflow: 'hidden',
+          backgroundColor: '#e4e2de',
+          cursor: 'pointer',
+        }}
+      >
+        {slides.map((slide, i) => (
+          <img
+            key={slide.src}
+            src={slide.src}
+            alt=""
+            aria-hidden
+            loading={i === 0 ? 'eager' : 'lazy'}
+            draggable={false}
+            onError={(e) => {
+              const target = e.currentTarget;
+              target.src = getPlaceholderImage(1920, 1080, slide.title);
+              target.onerror = null;
+            }}
+            style={{
+              position: 'absolute',
+              inset: 0,
+              width: '100%',
+              height: '100%',
+              objectFit: slide.objectFit ?? 'cover',
+              objectPosition: slide.objectPosition ?? 'center',
+              opacity: i === index ? 1 : 0,
+              transition: reducedMotion ? 'none' : `opacity ${FADE_MS}ms ease`,
+            }}
+          />
+        ))}
+        <div
+          style={{
+            position: 'absolute',
+            inset: 0,
+            background: 'linear-gradient(to top, rgba(0,0,0,0.55) 0%, rgba(0,0,0,0) 35%)',
+          }}
+        />
+        <div
+          aria-live={paused ? 'polite' : 'off'}
+          style={{
+            position: 'absolute',
+            left: '20px',
+            right: '20px',
+            bottom: '18px',
+            display: 'flex',
+            alignItems: 'baseline',
+            gap: '12px',
+            textAlign: 'left',
+            color: '#ffffff',
+          }}
+        >
+          <span
+            style={{
+              fontSize: '0.6rem',
+              letterSpacing: '0.18em',
+              color: 'rgba(255,255,255,0.7)',
+              fontVariantNumeric: 'tabular-nums',
+            }}
+          >
+            {String(index + 1).padStart(2, '0')} / {String(count).padStart(2, '0')}
+          </span>
+          <span style={{ fontSize: '0.95rem', fontWeight: 700, lineHeight: 1.2 }}>
+            {active.title}
+          </span>
+        </div>
+      </button>
+
+      {count > 1 && (
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'center',
+            gap: '4px',
+            marginTop: '12px',
+          }}
+        >
+          {slides.map((slide, i) => (
+            <button
+              key={slide.src}
+              type="button"
+              onClick={() => go(i)}
+              aria-label={`Show slide ${i + 1}: ${slide.title}`}
+              aria-current={i === index ? 'true' : undefined}
+              style={{
+                width: '20px',
+                height: '20px',
+                padding: 0,
+                border: 'none',
+                background: 'none',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                cursor: 'pointer',
+              }}
+            >
+              <span
+                style={{
+                  display: 'block',
+                  width: i === index ? '18px' : '6px',
+                  height: '6px',
+                  borderRadius: '3px',
+                  backgroundColor: i === index ? '#111' : 'rgba(0,0,0,0.2)',
+                  transition: 'width 220ms ease, background-color 220ms ease',
+                }}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
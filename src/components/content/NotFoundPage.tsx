@@ -0,0 +1,42 @@
+import { Link } from 'react-router';
+import type { Project } from '@/types';
+import { getProjectPath } from '@/utils/routes';
+
+export interface NotFoundPageProps {
+  pathname: string;
+  projects: Project[];
+  onGoHome: () => void;
+}
+
+export function NotFoundPage({ pathname, projects, onGoHome }: NotFoundPageProps) {
+  return (
+    <article className="page page-not-found">
+      <header className="proj-head">
+        <div className="proj-eyebrow">404 · NOT FOUND</div>
+        <h1 className="proj-title">Nothing on this channel.</h1>
+        <p className="proj-tagline">
+          There is no page at <code>{pathname}</code>. It may have been renamed or removed.
+        </p>
+      </header>
+      <section className="proj-section">
+        <h2>Projects</h2>
+        <ul className="kv-list">
+          {projects.map((p) => (
+            <li key={p.id}>
+              <span className="kv-k">{String(p.id).padStart(2, '0')}</span>
+              <span className="kv-v">
+                <Link to={getProjectPath(p)}>{p.title}</Link>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+      <p>
+        <button type="button" className="nf-home" onClick={onGoHome}>
+          ← Back to the index
+        </button>
+      </p>
+      <footer className="page-footer"><span>DANIEL · 404</span><span>—</span><span>{new Date().getFullYear()}</span></footer>
+    </article>
+  );
+}
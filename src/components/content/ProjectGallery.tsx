@@ -0,0 +1,53 @@
+import type { GalleryImage, GalleryLayout } from '@/types';
+import { getPlaceholderImage } from '@/utils/placeholders';
+
+export interface ProjectGalleryProps {
+  images: GalleryImage[];
+  layout?: GalleryLayout;
+  /** Called with the image index when a figure is clicked; see GalleryLightbox. */
+  onOpen?: (index: number) => void;
+}
+
+/**
+ * Every gallery image, captioned with its title. Columns follow `layout` and collapse
+ * with the width of the content column (container queries in console.css), not the viewport.
+ */
+export function ProjectGallery({ images, layout = 'grid', onOpen }: ProjectGalleryProps) {
+  if (images.length === 0) return null;
+
+  return (
+    <div className="gallery-wrap">
+      <div className={`gallery gallery--${layout}`}>
+        {images.map((item, i) => (
+          <figure
+            key={item.src}
+            className={`gallery-item ${layout === 'feature' && i === 0 ? 'is-feature' : ''}`.trim()}
+          >
+            <button
+              type="button"
+              className="gallery-open"
+              onClick={() => onOpen?.(i)}
+              disabled={!onOpen}
+              aria-label={`Open ${item.title}`}
+            >
+              <img
+                src={item.src}
+                alt={item.title}
+                loading="lazy"
+                onError={(e) => {
+                  const target = e.currentTarget;
+                  target.src = getPlaceholderImage(1200, 800, item.title);
+                  target.onerror = null;
+                }}
+              />
+            </button>
+            <figcaption>
+              <span className="gallery-num">{String(i + 1).padStart(2, '0')}</span>
+              {item.title}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+}
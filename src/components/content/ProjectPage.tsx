@@ -1,7 +1,10 @@
 import type { Project, DetailLevel } from '@/types';
+import { useGalleryImageParam } from '@/hooks/useGalleryImageParam';
+import { GalleryLightbox } from './GalleryLightbox';
 import { HeroSection } from './HeroSection';
 import { MetadataPanel } from './MetadataPanel';
 import { ProcessSection } from './ProcessSection';
+import { ProjectGallery } from './ProjectGallery';
 
 export interface ProjectPageProps {
   project: Project;
@@ -19,6 +22,7 @@ export function ProjectPage({
   detailLevel,
 }: ProjectPageProps) {
   const idx = projects.findIndex((p) => p.id === project.id);
+  const lightbox = useGalleryImageParam(project.assets.gallery.length);
   return (
     <article className="page page-project">
       <header className="proj-head">
@@ -30,7 +34,11 @@ export function ProjectPage({
       </header>
 
       {heroEnabled && (
-        <HeroSection src={project.assets.hero} title={project.title} />
+        <HeroSection
+          src={project.assets.hero}
+          video={project.assets.heroVideo}
+          title={project.title}
+        />
       )}
       {metadataEnabled && (
         <MetadataPanel metadata={project.metadata} disciplines={project.disciplines} />
@@ -50,15 +58,21 @@ export function ProjectPage({
       {detailLevel === 'full' && project.assets.gallery.length > 0 && (
         <section className="proj-section">
           <h2>Selected views</h2>
-          <div className="gallery">
-            {project.assets.gallery.slice(0, 4).map((item, i) => (
-              <figure key={i}>
-                <img src={item.src} alt={item.title} />
-              </figure>
-            ))}
-          </div>
+          <ProjectGallery
+            images={project.assets.gallery}
+            layout={project.assets.galleryLayout}
+            onOpen={lightbox.open}
+          />
         </section>
       )}
+      {/* Outside the detail gate so ?image=N links open at any DETAIL setting. */}
+      <GalleryLightbox
+        images={project.assets.gallery}
+        projectTitle={project.title}
+        index={lightbox.index}
+        onIndexChange={lightbox.show}
+        onClose={lightbox.close}
+      />
       <footer className="page-footer"><span>{project.title.toUpperCase()}</span><span>—</span><span>{project.metadata.date}</span></footer>
     </article>
   );
@@ -1,12 +1,17 @@
 import { useState } from 'react';
+import { useNarrator } from '@/components/shared/NarratorProvider';
 
 export interface AskBarProps {
   onSubmit: (question: string) => void;
-  onFocus?: () => void;
 }
 
-export function AskBar({ onSubmit, onFocus }: AskBarProps) {
+export function AskBar({ onSubmit }: AskBarProps) {
+  const narrator = useNarrator();
   const [value, setValue] = useState('');
+  const handleFocus = () => {
+    narrator.release('ask');
+    narrator.emit({ type: 'ask-focused' });
+  };
   const handleSubmit = () => {
     const trimmed = value.trim();
     if (trimmed) {
@@ -30,7 +35,7 @@ export function AskBar({ onSubmit, onFocus }: AskBarProps) {
           value={value}
           onChange={(e) => setValue(e.target.value)}
           onKeyDown={handleKeyDown}
-          onFocus={onFocus}
+          onFocus={handleFocus}
           placeholder="ask anything..."
           aria-label="Ask"
           className="ask-input"
@@ -1,14 +1,18 @@
-import { useEffect, useLayoutEffect, useRef, useState, type CSSProperties } from 'react';
+import { useEffect, useRef, useState, type CSSProperties } from 'react';
 import { KnobControl } from './controls/KnobControl';
 import { ToggleSwitch } from './controls/ToggleSwitch';
 import { ProjectRow } from './ProjectRow';
+import { AskBar } from './AskBar';
+import { NarratorDisplay } from './NarratorDisplay';
+import { SpeakControls } from './SpeakControls';
+import { useIsomorphicLayoutEffect } from '@/hooks/useIsomorphicLayoutEffect';
 import type { ViewControls, DisciplineMix, Project } from '@/types';
 
 const RIB_COUNT = 10;
 const RIB_SPACING = 10;
 const RIB_CYCLE = RIB_COUNT * RIB_SPACING;
 
-/** H2 — Zone labels (INSTRUCTIONS, PROJECTS, VIEW, DISCIPLINE MIX) */
+/** H2 — Zone labels (INSTRUCTIONS, ASK, PROJECTS, VIEW, DISCIPLINE MIX) */
 const zoneLabelStyle: CSSProperties = {
   fontSize: '0.6rem',
   letterSpacing: '0.22em',
@@ -34,7 +38,10 @@ export interface DJBoardProps {
   onDisciplineChange: (knob: 'arch' | 'prod' | 'sw', value: number) => void;
   viewControls: ViewControls;
   onControlChange: (key: keyof ViewControls, value: unknown) => void;
-  narratorMessage: string;
+  /** Brackets each knob drag or wheel burst so the caller can treat it as one change. */
+  onKnobGesture?: (phase: 'start' | 'end') => void;
+  /** A submitted question; the answer comes back through the narrator. */
+  onAsk: (question: string) => void;
   onGoHome: () => void;
 }
 
@@ -61,7 +68,8 @@ export function DJBoard({
   onDisciplineChange,
   viewControls,
   onControlChange,
-  narratorMessage,
+  onKnobGesture,
+  onAsk,
   onGoHome,
 }: DJBoardProps) {
   const zone2Ref = useRef<HTMLDivElement>(null);
@@ -72,6 +80,10 @@ export function DJBoard({
   const safeIndex = len > 0 ? Math.min(activeIndex, len - 1) : 0;
   const prevIndex = len > 0 ? (safeIndex - 1 + len) % len : 0;
   const nextIndex = len > 0 ? (safeIndex + 1) % len : 0;
+  const knobGestureProps = {
+    onGestureStart: () => onKnobGesture?.('start'),
+    onGestureEnd: () => onKnobGesture?.('end'),
+  };
 
   useEffect(() => {
     const el = zone2Ref.current;
@@ -94,7 +106,7 @@ export function DJBoard({
     return () => el.removeEventListener('wheel', onWheel);
   }, [len, onProjectChange, safeIndex]);
 
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     const el = textColumnRef.current;
     if (!el) return;
     setPillHeight(el.offsetHeight);
@@ -179,61 +191,33 @@ export function DJBoard({
             flexDirection: 'column',
           }}
         >
-          <span style={zoneLabelStyle}>INSTRUCTIONS</span>
           <div
             style={{
-              flex: 1,
-              minHeight: 0,
-              backgroundColor: '#f5f5f5',
-              border: '1px solid rgba(0,0,0,0.1)',
-              borderRadius: '4px',
-              boxShadow: 'inset 0 1px 3px rgba(0,0,0,0.06)',
-              padding: '8px 10px',
-              overflow: 'hidden',
               display: 'flex',
-              alignItems: 'flex-start',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '8px',
             }}
           >
-            <p
-              style={{
-                margin: 0,
-                fontFamily: 'inherit',
-                fontSize: '0.88rem',
-                lineHeight: 1.5,
-              }}
-            >
-              <span
-                style={{
-                  fontFamily: 'inherit',
-                  color: '#dc2626',
-                  fontWeight: 700,
-                  letterSpacing: '0.01em',
-                }}
-              >
-                &gt; daniel:{' '}
-              </span>
-              <span
-                style={{
-                  fontFamily: 'inherit',
-                  color: '#111',
-                  fontWeight: 400,
-                  letterSpacing: '0.01em',
-                }}
-              >
-                {narratorMessage}
-              </span>
-              <span
-                style={{
-                  fontFamily: 'inherit',
-                  color: '#dc2626',
-                  fontWeight: 400,
-                  animation: 'blink 0.66s step-end infinite',
-                }}
-              >
-                |
-              </span>
-            </p>
+            <span style={zoneLabelStyle}>INSTRUCTIONS</span>
+            <SpeakControls />
           </div>
+          <NarratorDisplay />
+        </div>
+      </div>
+
+      {/* Zone — ASK */}
+      <div
+        style={{
+          flexShrink: 0,
+          padding: '0 12px 10px 12px',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        <span style={zoneLabelStyle}>ASK</span>
+        <div className="board-ask">
+          <AskBar onSubmit={onAsk} />
         </div>
       </div>
 
@@ -418,6 +402,7 @@ export function DJBoard({
             onChange={(v) => onControlChange('detailDepth', v)}
             size={72}
             sensitivity={0.706}
+            {...knobGestureProps}
             tooltip="Controls content density — low shows images only, high shows full documentation."
           />
           <div
@@ -479,6 +464,7 @@ export function DJBoard({
             onChange={(v) => onDisciplineChange('arch', v)}
             size={72}
             sensitivity={0.706}
+            {...knobGestureProps}
             tooltip="Weight toward architecture projects. Higher value surfaces arch-heavy work first."
           />
           <KnobControl
@@ -487,6 +473,7 @@ export function DJBoard({
             onChange={(v) => onDisciplineChange('prod', v)}
             size={72}
             sensitivity={0.706}
+            {...knobGestureProps}
             tooltip="Weight toward product design projects. Adjusts project ordering accordingly."
           />
           <KnobControl
@@ -495,6 +482,7 @@ export function DJBoard({
             onChange={(v) => onDisciplineChange('sw', v)}
             size={72}
             sensitivity={0.706}
+            {...knobGestureProps}
             tooltip="Weight toward software projects. Surfaces code and systems work higher."
           />
         </div>
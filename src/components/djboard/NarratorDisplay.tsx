@@ -0,0 +1,151 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNarrator, useNarratorHistory, useNarratorMessage } from '@/components/shared/NarratorProvider';
+import { usePrefersReducedMotion } from '@/hooks/usePrefersReducedMotion';
+import { useTypewriter } from '@/hooks/useTypewriter';
+import type { NarratorMessage } from '@/utils/narrator';
+
+const promptStyle = {
+  fontFamily: 'inherit',
+  color: '#dc2626',
+  fontWeight: 700,
+  letterSpacing: '0.01em',
+} as const;
+
+const textStyle = {
+  fontFamily: 'inherit',
+  color: '#111',
+  fontWeight: 400,
+  letterSpacing: '0.01em',
+} as const;
+
+/** Distance from the bottom, in px, within which the log keeps following new messages. */
+const FOLLOW_SLACK = 12;
+
+const formatTime = (ms: number) => new Date(ms).toTimeString().slice(0, 8);
+
+/** The visitor's question is logged in their words; everything else is the narrator's. */
+function speakerLine(entry: NarratorMessage): { visitor: boolean; text: string } {
+  return entry.event.type === 'ask-searching'
+    ? { visitor: true, text: entry.event.query }
+    : { visitor: false, text: entry.text };
+}
+
+/**
+ * The INSTRUCTIONS screen: types out the narrator's message. A new message interrupts the
+ * one being typed, and a click on the screen shows the rest at once. With reduced motion
+ * the text appears whole and the cursor holds still. Screen readers get the full text
+ * once per message rather than the partial one.
+ *
+ * LOG expands the screen into the session's timestamped history, Ask questions and answers
+ * included, which follows new messages unless the visitor has scrolled back. CLEAR resets
+ * it to the welcome message.
+ */
+export function NarratorDisplay() {
+  const narrator = useNarrator();
+  const message = useNarratorMessage();
+  const history = useNarratorHistory();
+  const reducedMotion = usePrefersReducedMotion();
+  const { shown, done, skip } = useTypewriter(message.text, message.id, { instant: reducedMotion });
+  const [expanded, setExpanded] = useState(false);
+  const logRef = useRef<HTMLOListElement>(null);
+  const followRef = useRef(true);
+
+  useEffect(() => {
+    if (expanded) followRef.current = true;
+  }, [expanded]);
+
+  useEffect(() => {
+    const log = logRef.current;
+    if (log && followRef.current) log.scrollTop = log.scrollHeight;
+  }, [expanded, history, shown]);
+
+  const handleScroll = () => {
+    const log = logRef.current;
+    if (!log) return;
+    followRef.current = log.scrollHeight - log.scrollTop - log.clientHeight <= FOLLOW_SLACK;
+  };
+
+  const cursor = (
+    <span
+      style={{
+        fontFamily: 'inherit',
+        color: '#dc2626',
+        fontWeight: 400,
+        // Solid while typing, like a real terminal; blinks once the line is finished.
+        animation: done && !reducedMotion ? 'blink 0.66s step-end infinite' : undefined,
+      }}
+    >
+      |
+    </span>
+  );
+
+  return (
+    <div
+      onClick={skip}
+      style={{
+        position: 'relative',
+        flex: 1,
+        minHeight: 0,
+        backgroundColor: '#f5f5f5',
+        border: '1px solid rgba(0,0,0,0.1)',
+        borderRadius: '4px',
+        boxShadow: 'inset 0 1px 3px rgba(0,0,0,0.06)',
+        padding: '8px 10px',
+        overflow: 'hidden',
+        display: 'flex',
+        alignItems: 'flex-start',
+        cursor: done ? 'default' : 'pointer',
+      }}
+    >
+      {expanded ? (
+        <ol ref={logRef} className="board-log" onScroll={handleScroll} aria-label="Narrator log">
+          {history.map((entry) => {
+            const current = entry.id === message.id;
+            const { visitor, text } = speakerLine(entry);
+            return (
+              <li key={entry.id}>
+                <time className="board-log-time" dateTime={new Date(entry.shownAt).toISOString()}>
+                  {formatTime(entry.shownAt)}
+                </time>
+                <span style={visitor ? { ...promptStyle, color: '#111' } : promptStyle}>
+                  {visitor ? '> you: ' : '> daniel: '}
+                </span>
+                <span style={textStyle}>{current && !visitor ? shown : text}</span>
+                {current && cursor}
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <p
+          aria-hidden="true"
+          style={{
+            margin: 0,
+            // Clear of the LOG button.
+            paddingRight: '44px',
+            fontFamily: 'inherit',
+            fontSize: '0.88rem',
+            lineHeight: 1.5,
+          }}
+        >
+          <span style={promptStyle}>&gt; daniel: </span>
+          <span style={textStyle}>{shown}</span>
+          {cursor}
+        </p>
+      )}
+      <div className="board-log-controls" onClick={(e) => e.stopPropagation()}>
+        {expanded && (
+          <button type="button" onClick={() => narrator.reset()}>
+            CLEAR
+          </button>
+        )}
+        <button type="button" aria-expanded={expanded} onClick={() => setExpanded((open) => !open)}>
+          {expanded ? 'LIVE' : `LOG ${history.length}`}
+        </button>
+      </div>
+      <p className="sr-only" aria-live="polite">
+        {message.text}
+      </p>
+    </div>
+  );
+}
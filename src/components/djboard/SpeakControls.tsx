@@ -0,0 +1,32 @@
+import { useNarratorSpeech } from '@/hooks/useNarratorSpeech';
+
+/**
+ * The SPEAK toggle beside the INSTRUCTIONS label, with a voice picker while it is on.
+ * Renders nothing where the browser can't speak.
+ */
+export function SpeakControls() {
+  const { supported, enabled, setEnabled, voices, voice, setVoiceURI } = useNarratorSpeech();
+  if (!supported) return null;
+
+  return (
+    <div className="board-speak">
+      {enabled && voices.length > 1 && (
+        <select
+          aria-label="Narrator voice"
+          value={voice?.voiceURI ?? ''}
+          onChange={(e) => setVoiceURI(e.target.value || null)}
+        >
+          <option value="">Default voice</option>
+          {voices.map((v) => (
+            <option key={v.voiceURI} value={v.voiceURI}>
+              {v.name} ({v.lang})
+            </option>
+          ))}
+        </select>
+      )}
+      <button type="button" aria-pressed={enabled} onClick={() => setEnabled((on) => !on)}>
+        SPEAK
+      </button>
+    </div>
+  );
+}
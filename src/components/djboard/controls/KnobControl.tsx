@@ -1,4 +1,5 @@
-import { useRef, useCallback, useId, useEffect, useLayoutEffect } from 'react';
+import { useRef, useCallback, useId, useEffect } from 'react';
+import { useIsomorphicLayoutEffect } from '@/hooks/useIsomorphicLayoutEffect';
 import { ControlTooltip } from '../ControlTooltip';
 
 export interface KnobControlProps {
@@ -9,8 +10,15 @@ export interface KnobControlProps {
   /** Angular drag damping; 1 = full scale. */
   sensitivity?: number;
   tooltip?: string;
+  /** Fired when a drag or wheel burst begins; lets callers group its changes. */
+  onGestureStart?: () => void;
+  /** Fired when the pointer is released or the wheel has been still for a moment. */
+  onGestureEnd?: () => void;
 }
 
+/** Quiet period after the last wheel tick before a wheel gesture counts as finished. */
+const WHEEL_GESTURE_END_MS = 250;
+
 export function KnobControl({
   label,
   value,
@@ -18,6 +26,8 @@ export function KnobControl({
   size = 44,
   sensitivity = 1,
   tooltip,
+  onGestureStart,
+  onGestureEnd,
 }: KnobControlProps) {
   const knobRef = useRef<HTMLDivElement>(null);
   const wrapRef = useRef<HTMLDivElement>(null);
@@ -25,12 +35,13 @@ export function KnobControl({
   const lastAngleRef = useRef<number | null>(null);
   const draggingValueRef = useRef(0);
   const latestValueRef = useRef(value);
+  const wheelGestureTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const uid = useId().replace(/:/g, '');
   const gradId = `kg-${uid}`;
   const shadowId = `ks-${uid}`;
   const rimGradId = `rim-${uid}`;
 
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     latestValueRef.current = value;
   }, [value]);
 
@@ -58,6 +69,7 @@ export function KnobControl({
       el.setPointerCapture(e.pointerId);
       lastAngleRef.current = getAngleFromEvent(e);
       draggingValueRef.current = latestValueRef.current;
+      onGestureStart?.();
 
       const handleMove = (moveE: PointerEvent) => {
         if (!isDragging.current || lastAngleRef.current === null) return;
@@ -86,23 +98,33 @@ export function KnobControl({
         window.removeEventListener('pointermove', handleMove);
         window.removeEventListener('pointerup', handleUp);
         window.removeEventListener('pointercancel', handleUp);
+        onGestureEnd?.();
       };
 
       window.addEventListener('pointermove', handleMove);
       window.addEventListener('pointerup', handleUp);
       window.addEventListener('pointercancel', handleUp);
     },
-    [getAngleFromEvent, onChange, sensitivity]
+    [getAngleFromEvent, onChange, onGestureStart, onGestureEnd, sensitivity]
   );
 
   const handleWheel = useCallback(
     (e: WheelEvent) => {
       e.preventDefault();
       e.stopPropagation();
+      if (wheelGestureTimerRef.current) {
+        clearTimeout(wheelGestureTimerRef.current);
+      } else {
+        onGestureStart?.();
+      }
+      wheelGestureTimerRef.current = setTimeout(() => {
+        wheelGestureTimerRef.current = null;
+        onGestureEnd?.();
+      }, WHEEL_GESTURE_END_MS);
       const step = e.deltaY > 0 ? -2 : 2;
       onChange(Math.max(0, Math.min(100, Math.round(value + step))));
     },
-    [onChange, value]
+    [onChange, onGestureStart, onGestureEnd, value]
   );
 
   useEffect(() => {
@@ -112,6 +134,13 @@ export function KnobControl({
     return () => el.removeEventListener('wheel', handleWheel);
   }, [handleWheel]);
 
+  useEffect(
+    () => () => {
+      if (wheelGestureTimerRef.current) clearTimeout(wheelGestureTimerRef.current);
+    },
+    []
+  );
+
   const cx = size / 2;
   const cy = size / 2;
   const r = size / 2;
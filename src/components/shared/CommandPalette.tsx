@@ -0,0 +1,144 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/app/components/ui/command';
+import type { AboutData, AskAction, DisciplineMix, Project, ViewControls } from '@/types';
+import { useRecentCommands } from '@/hooks/useRecentCommands';
+import {
+  buildPaletteCommands,
+  type PaletteCommand,
+  type PaletteGroup,
+} from '@/utils/paletteCommands';
+
+export interface CommandPaletteProps {
+  projects: Project[];
+  about: AboutData;
+  viewControls: ViewControls;
+  disciplineMix: DisciplineMix;
+  /** Runs a board action; the same handler the Ask bar uses. */
+  onAction: (action: AskAction) => void;
+}
+
+const GROUPS: PaletteGroup[] = ['Projects', 'Board', 'About'];
+
+function PaletteItem({
+  command,
+  value,
+  onRun,
+}: {
+  command: PaletteCommand;
+  value: string;
+  onRun: (command: PaletteCommand) => void;
+}) {
+  return (
+    <CommandItem
+      className="palette-item"
+      value={value}
+      keywords={[command.label, ...command.keywords]}
+      onSelect={() => onRun(command)}
+    >
+      {command.label}
+      {command.hint && <CommandShortcut className="palette-hint">{command.hint}</CommandShortcut>}
+    </CommandItem>
+  );
+}
+
+/**
+ * Ctrl/Cmd+K palette over every project, board control and contact action, with fuzzy
+ * search and the last few commands on top. Board actions go back to the App through
+ * `onAction`, so they behave exactly like the physical controls.
+ */
+export function CommandPalette({
+  projects,
+  about,
+  viewControls,
+  disciplineMix,
+  onAction,
+}: CommandPaletteProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const { recentIds, remember } = useRecentCommands();
+
+  const commands = useMemo(
+    () => buildPaletteCommands({ projects, about, viewControls, disciplineMix }),
+    [projects, about, viewControls, disciplineMix]
+  );
+  const recent = recentIds
+    .map((id) => commands.find((command) => command.id === id))
+    .filter((command): command is PaletteCommand => command != null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setQuery('');
+  };
+
+  const run = (command: PaletteCommand) => {
+    handleOpenChange(false);
+    remember(command.id);
+    const { action } = command;
+    if (action.type !== 'link') {
+      onAction(action);
+    } else if (action.href.startsWith('mailto:')) {
+      window.location.href = action.href;
+    } else {
+      window.open(action.href, '_blank', 'noopener,noreferrer');
+    }
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={handleOpenChange}
+      className="palette"
+      title="Command palette"
+      description="Jump to a project or run a board control."
+    >
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Type a project, control or contact…"
+      />
+      <CommandList className="palette-list">
+        <CommandEmpty className="palette-empty">No matches. Try a tool or a discipline.</CommandEmpty>
+        {query === '' && recent.length > 0 && (
+          <CommandGroup heading="Recent">
+            {recent.map((command) => (
+              <PaletteItem
+                key={command.id}
+                command={command}
+                value={`recent:${command.id}`}
+                onRun={run}
+              />
+            ))}
+          </CommandGroup>
+        )}
+        {GROUPS.map((group) => (
+          <CommandGroup key={group} heading={group}>
+            {commands
+              .filter((command) => command.group === group)
+              .map((command) => (
+                <PaletteItem key={command.id} command={command} value={command.id} onRun={run} />
+              ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,38 @@
+import { createContext, useContext, useEffect, useSyncExternalStore } from 'react';
+import type { Narrator, NarratorMessage } from '@/utils/narrator';
+
+const NarratorContext = createContext<Narrator | null>(null);
+
+export interface NarratorProviderProps {
+  narrator: Narrator;
+  children: React.ReactNode;
+}
+
+/** Makes `narrator` available to every component below, and runs its timers while mounted. */
+export function NarratorProvider({ narrator, children }: NarratorProviderProps) {
+  useEffect(() => {
+    narrator.start();
+    return () => narrator.dispose();
+  }, [narrator]);
+
+  return <NarratorContext.Provider value={narrator}>{children}</NarratorContext.Provider>;
+}
+
+/** The narrator, for emitting events from anywhere on the page. */
+export function useNarrator(): Narrator {
+  const narrator = useContext(NarratorContext);
+  if (!narrator) throw new Error('useNarrator must be used within a <NarratorProvider />');
+  return narrator;
+}
+
+/** The message on screen; re-renders whenever it changes. */
+export function useNarratorMessage(): NarratorMessage {
+  const narrator = useNarrator();
+  return useSyncExternalStore(narrator.subscribe, narrator.getMessage, narrator.getMessage);
+}
+
+/** The session's messages, oldest first; re-renders whenever one is added or updated. */
+export function useNarratorHistory(): readonly NarratorMessage[] {
+  const narrator = useNarrator();
+  return useSyncExternalStore(narrator.subscribe, narrator.getHistory, narrator.getHistory);
+}
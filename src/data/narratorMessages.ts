@@ -1,10 +1,26 @@
+import type { BoardControl, DisciplineMix, NarratorEvent } from '@/types';
+import { getDetailLabel } from '@/utils/formatters';
+
 export const DEFAULT_NARRATOR =
   'Welcome. Scroll the project slot to explore my work. Every control on this board shapes what you see.';
 
-export const IDLE_TIP = 'Tip: hover the slot and scroll to navigate.';
+/** Idle tips, one per control, in the order they are offered while still untried. */
+export const IDLE_TIPS: Record<BoardControl, string> = {
+  slot: 'Tip: hover the slot and scroll to navigate.',
+  ask: "Tip: type a question into Ask, like 'what tools?'",
+  arch: 'Tip: turn ARCH to weight architecture projects up or down.',
+  prod: 'Tip: turn PROD to weight product design projects up or down.',
+  sw: 'Tip: turn SW to weight software projects up or down.',
+  detailDepth: 'Tip: turn DETAIL for anything from a summary to the full write-up.',
+  metadataEnabled: 'Tip: flip META to show or hide project metadata.',
+  heroEnabled: 'Tip: flip HERO to show or hide the hero images.',
+};
 
 export const NARRATOR_VIEWING = (title: string) => `Viewing: ${title}.`;
 
+export const NARRATOR_NOT_FOUND = (path: string) =>
+  `Nothing at ${path}. Scroll the slot or press home to get back on track.`;
+
 export const NARRATOR_BALANCED =
   'Balanced mix. All disciplines weighted equally.';
 
@@ -34,3 +50,84 @@ export const NARRATOR_DETAIL = (level: string) => `Detail: ${level}.`;
 export const NARRATOR_ASK_ACTIVE =
   "Ask mode active. Try: 'what tools?' or 'architecture work'";
 export const NARRATOR_SEARCHING = (query: string) => `Searching: '${query}'...`;
+export const NARRATOR_EMAIL_COPIED = (email: string) => `Copied ${email} to your clipboard.`;
+export const NARRATOR_COPY_FAILED = (email: string) =>
+  `Couldn't reach the clipboard. My email is ${email}.`;
+
+/** How a narrator event is shown: its wording and how it competes with other messages. */
+export interface Narration {
+  text: string;
+  /** Messages with the same key replace each other in place (a knob drag, a streaming answer). */
+  key: string;
+  /** A higher priority cuts a lower one short; an equal or lower one waits its turn. */
+  priority: number;
+  /** Time on screen before anything of equal or lower priority may follow. */
+  minDurationMs: number;
+  /** Longest it may wait in the queue before it is stale and dropped; 0 never queues. */
+  maxWaitMs: number;
+}
+
+const PRIORITY = { idle: 0, board: 1, ask: 2, answer: 3 } as const;
+
+function describeMix({ arch, prod, sw }: DisciplineMix): string {
+  const balanced = Math.abs(arch - 33) <= 2 && Math.abs(prod - 33) <= 2 && Math.abs(sw - 34) <= 2;
+  if (balanced) return NARRATOR_BALANCED;
+  if (arch === 0) return NARRATOR_ARCH_EXCLUDED;
+  if (prod === 0) return NARRATOR_PROD_EXCLUDED;
+  if (sw === 0) return NARRATOR_SW_EXCLUDED;
+  if (arch > 60) return NARRATOR_ARCH_EMPHASIS;
+  if (prod > 60) return NARRATOR_PROD_EMPHASIS;
+  if (sw > 60) return NARRATOR_SW_EMPHASIS;
+  return NARRATOR_MIX(arch, prod, sw);
+}
+
+function describeView(event: Extract<NarratorEvent, { type: 'view-changed' }>): string {
+  switch (event.control) {
+    case 'heroEnabled':
+      return event.value ? NARRATOR_HERO_ON : NARRATOR_HERO_OFF;
+    case 'metadataEnabled':
+      return event.value ? NARRATOR_META_ON : NARRATOR_META_OFF;
+    case 'detailDepth':
+      return NARRATOR_DETAIL(getDetailLabel(event.value));
+  }
+}
+
+/** The narration for every event the board can emit. */
+export function describeNarratorEvent(event: NarratorEvent): Narration {
+  const board = { priority: PRIORITY.board, minDurationMs: 1200, maxWaitMs: 2500 };
+  switch (event.type) {
+    case 'home-viewed':
+      return { ...board, key: 'page', text: DEFAULT_NARRATOR };
+    case 'project-viewed':
+      return { ...board, key: 'page', text: NARRATOR_VIEWING(event.title) };
+    case 'page-not-found':
+      return { ...board, key: 'page', text: NARRATOR_NOT_FOUND(event.pathname) };
+    case 'mix-changed':
+      return { ...board, key: 'mix', minDurationMs: 800, text: describeMix(event.mix) };
+    case 'view-changed':
+      return { ...board, key: `view:${event.control}`, text: describeView(event) };
+    case 'ask-focused':
+      return { key: 'ask', priority: PRIORITY.ask, minDurationMs: 0, maxWaitMs: 0, text: NARRATOR_ASK_ACTIVE };
+    case 'ask-searching':
+      return {
+        key: 'ask',
+        priority: PRIORITY.answer,
+        minDurationMs: 0,
+        maxWaitMs: 0,
+        text: NARRATOR_SEARCHING(event.query),
+      };
+    case 'ask-answered':
+      // Held long enough to read; the board changes the answer triggers wait, then expire.
+      return { key: 'ask', priority: PRIORITY.answer, minDurationMs: 6000, maxWaitMs: 10000, text: event.response };
+    case 'email-copied':
+      return {
+        key: 'ask',
+        priority: PRIORITY.answer,
+        minDurationMs: 4000,
+        maxWaitMs: 4000,
+        text: event.copied ? NARRATOR_EMAIL_COPIED(event.email) : NARRATOR_COPY_FAILED(event.email),
+      };
+    case 'idle':
+      return { key: 'idle', priority: PRIORITY.idle, minDurationMs: 0, maxWaitMs: 0, text: event.tip };
+  }
+}
@@ -0,0 +1,29 @@
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router';
+import { App } from './app/App.tsx';
+import { projects } from '@/data/projects';
+import { getPrerenderPaths, getRouteMeta, resolveRoute, type RouteMeta } from '@/utils/routes';
+
+export interface RenderResult {
+  html: string;
+  meta: RouteMeta;
+  status: 200 | 404;
+}
+
+/** Paths emitted by `npm run build`; see scripts/prerender.mjs. */
+export const prerenderPaths = getPrerenderPaths(projects);
+
+/** Renders the full app for a URL at default view controls (no query string). */
+export function render(url: string): RenderResult {
+  const route = resolveRoute(new URL(url, 'http://localhost').pathname, projects);
+  const html = renderToString(
+    <StaticRouter location={url}>
+      <App />
+    </StaticRouter>
+  );
+  return {
+    html,
+    meta: getRouteMeta(route),
+    status: route.kind === 'not-found' ? 404 : 200,
+  };
+}
@@ -0,0 +1,45 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router';
+import { GALLERY_IMAGE_PARAM } from '@/utils/routes';
+
+export interface GalleryImageParam {
+  /** Zero-based index of the open image, or null when the lightbox is closed. */
+  index: number | null;
+  open: (index: number) => void;
+  show: (index: number) => void;
+  close: () => void;
+}
+
+/**
+ * Keeps the lightbox image in the query string (1-based, e.g. ?image=3) so a
+ * specific drawing can be linked. Opening pushes a history entry, so Back closes it.
+ */
+export function useGalleryImageParam(count: number): GalleryImageParam {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const raw = Number(searchParams.get(GALLERY_IMAGE_PARAM));
+  const index = Number.isInteger(raw) && raw >= 1 && raw <= count ? raw - 1 : null;
+
+  const write = useCallback(
+    (next: number | null, replace: boolean) => {
+      setSearchParams(
+        (prev) => {
+          const params = new URLSearchParams(prev);
+          if (next == null) params.delete(GALLERY_IMAGE_PARAM);
+          else params.set(GALLERY_IMAGE_PARAM, String(next + 1));
+          return params;
+        },
+        { replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const open = useCallback((i: number) => write(i, false), [write]);
+  const show = useCallback(
+    (i: number) => write(((i % count) + count) % count, true),
+    [count, write]
+  );
+  const close = useCallback(() => write(null, true), [write]);
+
+  return { index, open, show, close };
+}
@@ -1,44 +1,341 @@
+import { useMemo, useRef } from 'react';
 import { keywordDictionary } from '@/data/keywords';
-import type { KeywordMatch } from '@/types';
-
-export interface KeywordSearchResult {
-  response: string;
-  action?: 'navigate' | 'filter' | 'info';
-  payload?: unknown;
-}
-
-export function useKeywordSearch() {
-  const search = (query: string): KeywordSearchResult => {
-    const normalized = query.toLowerCase().trim();
-    const words = normalized.split(/\s+/);
-
-    let bestMatch: KeywordMatch | null = null;
-    let bestScore = 0;
-
-    for (const entry of keywordDictionary) {
-      if (entry.keywords.length === 0) continue;
-      const score = entry.keywords.filter((kw) =>
-        words.some((word) => word.includes(kw) || kw.includes(word))
-      ).length;
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = entry;
+import { aboutData } from '@/data/about';
+import type { AskAnswer, KeywordMatch, Project } from '@/types';
+import {
+  STOPWORDS,
+  buildSearchIndex,
+  searchProjects,
+  stem,
+  type ProjectSearchHit,
+} from '@/utils/searchIndex';
+import { editDistance, maxTypos, normalizeWords } from '@/utils/textMatch';
+import {
+  INITIAL_DIALOGUE,
+  detectFollowUp,
+  type DialogueState,
+  type FollowUp,
+} from '@/utils/askDialogue';
+import { parseCommand } from '@/utils/askCommands';
+import { getConfiguredProvider, type AskOptions, type AskProvider } from '@/utils/askProviders';
+import { getConfiguredLogSink, type AskLogSink } from '@/utils/askLog';
+
+export interface KeywordSearchResult extends AskAnswer {
+  /** Project the answer is about, remembered so follow-ups can refer back to it. */
+  projectId?: number;
+  /** Ranked full-text matches, when the answer came from project content. */
+  results?: ProjectSearchHit[];
+  /** How sure the local engine was of a question's answer; weak and missing ones are logged. */
+  confidence?: 'high' | 'low' | 'none';
+}
+
+export interface KeywordSearchOptions {
+  /** Answers questions instead of the local engine; defaults to VITE_ASK_ENDPOINT. */
+  provider?: AskProvider | null;
+  /** Receives questions the local engine couldn't answer well. */
+  logSink?: AskLogSink | null;
+}
+
+/** Read once at startup; the provider is null unless an Ask backend is configured. */
+const configuredProvider = getConfiguredProvider();
+const configuredLogSink = getConfiguredLogSink();
+
+/**
+ * BM25 score above which a content match beats the curated dictionary. Terms found in
+ * every project (e.g. "architecture") score well below this; specific ones score above.
+ */
+const STRONG_MATCH_SCORE = 2;
+
+/**
+ * Dictionary scores: one clean keyword scores 1 and outranks full-text search; one typo
+ * scores 0.75, the least that still counts. Below that the fallback answer is given.
+ */
+const CLEAN_DICTIONARY_SCORE = 1;
+const MIN_DICTIONARY_SCORE = 0.75;
+
+/** How well a query word stands for a keyword word, from 0 (not at all) to 1 (exactly). */
+function wordScore(word: string, keyword: string): number {
+  if (word === keyword) return 1;
+  // Stopwords and short words ("a", "ui", "arch") only ever match exactly.
+  if (STOPWORDS.has(word) || keyword.length <= 3) return 0;
+  if (stem(word) === stem(keyword)) return 1;
+  if (keyword.length >= 4 && word.startsWith(keyword)) return 0.9;
+  const allowed = maxTypos(Math.min(word.length, keyword.length));
+  const distance = editDistance(word, keyword, allowed);
+  return allowed > 0 && distance <= allowed ? 1 - 0.25 * distance : 0;
+}
+
+/**
+ * Scores one dictionary entry against the query words. Multi-word keywords must appear as
+ * a consecutive phrase and count once per word; each query word counts toward one keyword
+ * only, so a phrase and its own words don't score twice.
+ */
+function scoreEntry(entry: KeywordMatch, words: string[]): number {
+  const keywords = entry.keywords
+    .map(normalizeWords)
+    .filter((kw) => kw.length > 0 && !(kw.length === 1 && STOPWORDS.has(kw[0])))
+    .sort((a, b) => b.length - a.length);
+  const claimed = new Set<number>();
+  let score = 0;
+
+  for (const kw of keywords) {
+    let best = { at: -1, quality: 0 };
+    for (let start = 0; start + kw.length <= words.length; start++) {
+      let quality = 1;
+      for (let k = 0; k < kw.length && quality > 0; k++) {
+        quality = claimed.has(start + k) ? 0 : Math.min(quality, wordScore(words[start + k], kw[k]));
       }
+      if (quality > best.quality) best = { at: start, quality };
     }
+    if (best.at < 0) continue;
+    for (let k = 0; k < kw.length; k++) claimed.add(best.at + k);
+    score += kw.length * best.quality;
+  }
+  return score;
+}
+
+interface DictionaryMatch {
+  entry: KeywordMatch;
+  score: number;
+}
+
+function findDictionaryMatch(query: string): DictionaryMatch | null {
+  const words = normalizeWords(query);
 
-    if (bestMatch && bestScore > 0) {
-      return {
-        response: bestMatch.response,
-        action: bestMatch.action,
-        payload: bestMatch.payload,
-      };
+  let bestMatch: KeywordMatch | null = null;
+  let bestScore = 0;
+
+  for (const entry of keywordDictionary) {
+    if (entry.keywords.length === 0) continue;
+    const score = scoreEntry(entry, words);
+    if (score > bestScore) {
+      bestScore = score;
+      bestMatch = entry;
     }
+  }
+  return bestMatch && bestScore >= MIN_DICTIONARY_SCORE
+    ? { entry: bestMatch, score: bestScore }
+    : null;
+}
+
+function answerFromDictionary({ entry, score }: DictionaryMatch): KeywordSearchResult {
+  return {
+    response: entry.response,
+    action: entry.action,
+    confidence: score >= CLEAN_DICTIONARY_SCORE ? 'high' : 'low',
+  };
+}
+
+function answerFromContent(hits: ProjectSearchHit[]): KeywordSearchResult {
+  const [top, ...rest] = hits;
+  const more = rest.length > 0 ? ' Say “next” for another match.' : '';
+  return {
+    response: `${top.project.title} — “${top.snippet}”${more}`,
+    action: { type: 'offer', projectId: top.project.id },
+    results: hits,
+    confidence: top.score >= STRONG_MATCH_SCORE ? 'high' : 'low',
+  };
+}
+
+const getProjectId = ({ projectId, action }: KeywordSearchResult): number | null =>
+  projectId ?? (action && 'projectId' in action ? action.projectId : null);
+
+/** First couple of sentences of the description, for "tell me more". */
+function describe(project: Project): string {
+  const sentences = project.content.description.match(/[^.!?]+[.!?]+/g) ?? [project.content.description];
+  return sentences.slice(0, 2).join('').trim();
+}
+
+/**
+ * Answers a question in order of confidence: a clean dictionary match (persona questions,
+ * filters, project names), then a strong full-text match over project content, then
+ * weaker matches of either kind, and finally the fallback answer.
+ *
+ * Replies such as "yes", "no", "next one", "tell me more" or "what tools did it use" are
+ * read against a small dialogue state: the last project talked about and any pending
+ * "Want me to open it?" offer. Pass the open project so "it" can mean the page on screen.
+ * Direct board commands ("hide metadata", "go back", "open image 3") come before questions.
+ *
+ * `ask` hands questions to an optional remote `provider` (see VITE_ASK_ENDPOINT) and keeps
+ * this engine as the offline default and the fallback. Questions it answers with the
+ * fallback or on a weak match go to `logSink`, for growing the dictionary.
+ */
+export function useKeywordSearch(
+  projects: Project[],
+  { provider = configuredProvider, logSink = configuredLogSink }: KeywordSearchOptions = {}
+) {
+  const index = useMemo(() => buildSearchIndex(projects), [projects]);
+  const dialogueRef = useRef<DialogueState>(INITIAL_DIALOGUE);
+
+  const findProject = (id: number | null) =>
+    id == null ? undefined : projects.find((p) => p.id === id);
+
+  const answerQuestion = (query: string): KeywordSearchResult => {
+    const match = findDictionaryMatch(query);
+    if (match && match.score >= CLEAN_DICTIONARY_SCORE) return answerFromDictionary(match);
+
+    const hits = searchProjects(index, query);
+    if (hits.length > 0 && hits[0].score >= STRONG_MATCH_SCORE) return answerFromContent(hits);
+    if (match) return answerFromDictionary(match);
+    if (hits.length > 0) return answerFromContent(hits);
 
     const fallback = keywordDictionary.find((e) => e.keywords.length === 0);
     return {
       response: fallback?.response ?? 'Try asking about my skills, projects, or background.',
+      confidence: 'none',
     };
   };
 
-  return { search };
+  /** Returns null when the reply has nothing to refer back to; it is then searched as-is. */
+  const answerFollowUp = (
+    kind: FollowUp,
+    dialogue: DialogueState,
+    currentProjectId: number | null
+  ): KeywordSearchResult | null => {
+    const subject = findProject(dialogue.lastProjectId ?? currentProjectId);
+    const offered = findProject(dialogue.offerProjectId);
+
+    switch (kind) {
+      case 'affirm':
+        if (!offered) return null;
+        return {
+          response: `Opening ${offered.title}.`,
+          action: { type: 'navigate', projectId: offered.id },
+        };
+      case 'negate':
+        return { response: 'No problem. Ask me something else, or scroll the slot.' };
+      case 'next': {
+        const fromResults = dialogue.resultIndex + 1 < dialogue.resultIds.length;
+        let next: Project | undefined;
+        if (fromResults) {
+          next = findProject(dialogue.resultIds[dialogue.resultIndex + 1]);
+        } else if (subject) {
+          const at = projects.findIndex((p) => p.id === subject.id);
+          next = projects[(at + 1) % projects.length];
+        }
+        if (!next) return null;
+        return {
+          response: `Next up: ${next.title} — ${next.content.summary}`,
+          action: { type: 'navigate', projectId: next.id },
+        };
+      }
+      case 'more':
+        if (!subject) return null;
+        return {
+          response: describe(subject),
+          action: { type: 'detail', projectId: subject.id },
+        };
+      case 'tools': {
+        if (!subject) return null;
+        const { tools } = subject.metadata;
+        return {
+          response:
+            tools.length > 0
+              ? `${subject.title} used ${tools.join(', ')}.`
+              : `I haven't listed tools for ${subject.title}.`,
+          projectId: subject.id,
+        };
+      }
+    }
+  };
+
+  /** Phrases an offer as a question, or drops it when that project is already open. */
+  const finishOffer = (result: KeywordSearchResult, currentProjectId: number | null) => {
+    if (result.action?.type !== 'offer') return result;
+    return result.action.projectId === currentProjectId
+      ? { ...result, action: undefined, projectId: currentProjectId }
+      : { ...result, response: `${result.response} Want me to open it?` };
+  };
+
+  /**
+   * Replies that only this engine can resolve: follow-ups to its own previous answer and
+   * board commands. `answer` is null for anything that should be treated as a question.
+   */
+  const answerDirect = (query: string, currentProjectId: number | null) => {
+    const dialogue = dialogueRef.current;
+    const followUp = detectFollowUp(query);
+    const command = followUp
+      ? null
+      : parseCommand(query, {
+          project: findProject(currentProjectId ?? dialogue.lastProjectId),
+          email: aboutData.contact.email,
+        });
+    const answer =
+      (followUp && answerFollowUp(followUp, dialogue, currentProjectId)) ?? command;
+    return { answer, followUp, isCommand: command != null };
+  };
+
+  /**
+   * Finishes an answer, records what it was about for the next question and logs it if
+   * the local engine wasn't confident.
+   */
+  const respond = (
+    query: string,
+    answer: KeywordSearchResult,
+    currentProjectId: number | null,
+    { followUp, isCommand }: { followUp: FollowUp | null; isCommand: boolean }
+  ): KeywordSearchResult => {
+    const dialogue = dialogueRef.current;
+    const result = finishOffer(answer, currentProjectId);
+    if (result.confidence === 'none' || result.confidence === 'low') {
+      logSink?.record({
+        query,
+        reason: result.confidence === 'none' ? 'unanswered' : 'low-confidence',
+        response: result.response,
+        projectId: currentProjectId,
+        askedAt: new Date().toISOString(),
+      });
+    }
+
+    const projectId = getProjectId(result);
+    const isNext = followUp === 'next' && projectId != null;
+    dialogueRef.current = {
+      // Follow-ups and board commands keep talking about the same project.
+      lastProjectId: projectId ?? (followUp || isCommand ? dialogue.lastProjectId : null),
+      offerProjectId: result.action?.type === 'offer' ? projectId : null,
+      resultIds: result.results
+        ? result.results.map((hit) => hit.project.id)
+        : isNext
+          ? dialogue.resultIds
+          : [],
+      resultIndex: isNext ? dialogue.resultIndex + 1 : 0,
+    };
+    return result;
+  };
+
+  /** Answers with the local engine only; synchronous and always available. */
+  const search = (query: string, currentProjectId: number | null = null): KeywordSearchResult => {
+    const direct = answerDirect(query, currentProjectId);
+    return respond(query, direct.answer ?? answerQuestion(query), currentProjectId, direct);
+  };
+
+  /**
+   * Answers with `provider` when one is configured, streaming its tokens to
+   * `options.onToken`. Follow-ups and board commands stay local, and any provider failure
+   * or timeout falls back to the local answer. Rejects only when `options.signal` aborts.
+   */
+  const ask = async (
+    query: string,
+    currentProjectId: number | null = null,
+    options: AskOptions = {}
+  ): Promise<KeywordSearchResult> => {
+    const direct = answerDirect(query, currentProjectId);
+    if (direct.answer || !provider) {
+      return respond(query, direct.answer ?? answerQuestion(query), currentProjectId, direct);
+    }
+    let answer: KeywordSearchResult;
+    try {
+      answer = await provider.ask(
+        { query, currentProjectId, lastProjectId: dialogueRef.current.lastProjectId },
+        options
+      );
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      // Down, slow or malformed: the visitor still gets an answer.
+      answer = answerQuestion(query);
+    }
+    return respond(query, answer, currentProjectId, direct);
+  };
+
+  return { search, ask };
 }
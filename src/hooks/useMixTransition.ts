@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { DisciplineMix } from '@/types';
+import { interpolateMix } from '@/utils/disciplineMath';
+import { usePrefersReducedMotion } from './usePrefersReducedMotion';
+
+const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+/**
+ * Sweeps the discipline knobs to a target mix over `duration` ms, one state update per
+ * animation frame. `cancel` stops a sweep midway, e.g. when the visitor grabs a knob.
+ */
+export function useMixTransition(
+  mix: DisciplineMix,
+  setMix: (mix: DisciplineMix) => void,
+  duration = 600
+) {
+  const reducedMotion = usePrefersReducedMotion();
+  const frameRef = useRef<number | null>(null);
+  const mixRef = useRef(mix);
+  mixRef.current = mix;
+
+  const cancel = useCallback(() => {
+    if (frameRef.current != null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  }, []);
+
+  const animateTo = useCallback(
+    (target: DisciplineMix) => {
+      cancel();
+      const from = mixRef.current;
+      if (reducedMotion) {
+        setMix(target);
+        return;
+      }
+      const start = performance.now();
+      const step = (now: number) => {
+        const t = Math.min(1, (now - start) / duration);
+        setMix(t === 1 ? target : interpolateMix(from, target, easeInOutCubic(t)));
+        frameRef.current = t === 1 ? null : requestAnimationFrame(step);
+      };
+      frameRef.current = requestAnimationFrame(step);
+    },
+    [cancel, duration, reducedMotion, setMix]
+  );
+
+  useEffect(() => cancel, [cancel]);
+
+  return { animateTo, cancel };
+}
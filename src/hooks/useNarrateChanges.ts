@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import type { NarratorEvent } from '@/types';
+import type { Narrator } from '@/utils/narrator';
+
+/**
+ * Emits narrator events when `value` changes after mount, whatever changed it: a
+ * control, an Ask action or back/forward. `toEvents` gets the new and previous value.
+ */
+export function useNarrateChanges<T>(
+  narrator: Narrator,
+  value: T,
+  toEvents: (next: T, prev: T) => NarratorEvent[],
+  isEqual: (a: T, b: T) => boolean = Object.is
+) {
+  const prevRef = useRef(value);
+  const toEventsRef = useRef(toEvents);
+  toEventsRef.current = toEvents;
+  const isEqualRef = useRef(isEqual);
+  isEqualRef.current = isEqual;
+
+  useEffect(() => {
+    const prev = prevRef.current;
+    if (isEqualRef.current(prev, value)) return;
+    prevRef.current = value;
+    toEventsRef.current(value, prev).forEach(narrator.emit);
+  }, [narrator, value]);
+}
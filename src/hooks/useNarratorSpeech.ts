@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNarrator } from '@/components/shared/NarratorProvider';
+import { createNarratorSpeaker, getBrowserSpeech, type SpeechEngine } from '@/utils/narratorSpeech';
+
+const STORAGE_KEY = 'djboard.speech-voice';
+
+function readVoiceURI(): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * State for the board's SPEAK toggle. Speech is off until the visitor turns it on (and
+ * browsers only allow it after a gesture anyway); the chosen voice is kept in localStorage.
+ * `supported` stays false while prerendering and wherever `getSpeech` finds no engine, so
+ * the controls can simply not render.
+ */
+export function useNarratorSpeech(getSpeech: () => SpeechEngine | null = getBrowserSpeech) {
+  const narrator = useNarrator();
+  const [speech, setSpeech] = useState<SpeechEngine | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [voiceURI, setVoiceURIState] = useState<string | null>(null);
+  const [enabled, setEnabled] = useState(false);
+
+  // Looked up after mount: the engine only exists in the browser.
+  useEffect(() => {
+    const engine = getSpeech();
+    if (!engine) return;
+    setSpeech(engine);
+    setVoiceURIState(readVoiceURI());
+    const refresh = () => setVoices(engine.getVoices());
+    refresh();
+    return engine.onVoicesChanged(refresh);
+  }, [getSpeech]);
+
+  const voice = voices.find((v) => v.voiceURI === voiceURI) ?? null;
+  const voiceRef = useRef(voice);
+  voiceRef.current = voice;
+
+  // Keyed by URI, not the voice object, which a voice-list refresh replaces. Picking
+  // another voice restarts the speaker, so the message on screen is read again in it.
+  useEffect(() => {
+    if (!speech || !enabled) return;
+    const speaker = createNarratorSpeaker({ narrator, speech, voice: voiceRef.current });
+    return () => speaker.dispose();
+  }, [enabled, narrator, speech, voice?.voiceURI]);
+
+  const setVoiceURI = useCallback((uri: string | null) => {
+    setVoiceURIState(uri);
+    try {
+      if (uri) window.localStorage.setItem(STORAGE_KEY, uri);
+      else window.localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Private mode or a full quota: the voice just won't persist.
+    }
+  }, []);
+
+  return { supported: speech !== null, enabled, setEnabled, voices, voice, setVoiceURI };
+}
@@ -0,0 +1,38 @@
+import { useCallback, useState } from 'react';
+
+const STORAGE_KEY = 'djboard.recent-commands';
+
+/** Reads the stored ids; storage can be missing (SSR), blocked or hold junk. */
+function readRecent(): string[] {
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Most recently run command-palette ids, newest first, kept in localStorage so they
+ * survive a reload. `remember` moves an id to the front and trims the list to `limit`.
+ */
+export function useRecentCommands(limit = 5) {
+  const [recentIds, setRecentIds] = useState<string[]>(readRecent);
+
+  const remember = useCallback(
+    (id: string) => {
+      setRecentIds((prev) => {
+        const next = [id, ...prev.filter((other) => other !== id)].slice(0, limit);
+        try {
+          window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        } catch {
+          // Private mode or a full quota: recents just won't persist.
+        }
+        return next;
+      });
+    },
+    [limit]
+  );
+
+  return { recentIds, remember };
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+
+export interface TypewriterOptions {
+  /** Delay between characters. */
+  charMs?: number;
+  /** Longer texts type several characters per tick so none takes longer than this. */
+  maxDurationMs?: number;
+  /** Show every text in full straight away (reduced motion). */
+  instant?: boolean;
+}
+
+export interface Typewriter {
+  shown: string;
+  done: boolean;
+  /** Reveals the rest of the text now. */
+  skip: () => void;
+}
+
+interface TypingState {
+  restartKey: unknown;
+  text: string;
+  length: number;
+}
+
+/**
+ * Reveals `text` a few characters at a time. A new `restartKey` (e.g. a message id)
+ * interrupts whatever is typing and starts over, unless the new text only extends what is
+ * already shown (a streaming answer), in which case typing carries on from there. The
+ * first text is shown in full, so prerendered markup and hydration agree.
+ */
+export function useTypewriter(
+  text: string,
+  restartKey: unknown,
+  { charMs = 18, maxDurationMs = 2000, instant = false }: TypewriterOptions = {}
+): Typewriter {
+  const [state, setState] = useState<TypingState>({ restartKey, text, length: text.length });
+
+  let current = state;
+  if (state.restartKey !== restartKey || state.text !== text) {
+    const shownSoFar = state.text.slice(0, state.length);
+    const length = instant ? text.length : text.startsWith(shownSoFar) ? shownSoFar.length : 0;
+    current = { restartKey, text, length };
+    setState(current);
+  }
+
+  const length = instant ? text.length : current.length;
+  const done = length >= text.length;
+
+  useEffect(() => {
+    if (done) return;
+    const step = Math.max(1, Math.ceil((text.length * charMs) / maxDurationMs));
+    const timer = setTimeout(
+      () => setState((s) => ({ ...s, length: Math.min(s.text.length, s.length + step) })),
+      charMs
+    );
+    return () => clearTimeout(timer);
+  }, [charMs, done, length, maxDurationMs, text]);
+
+  const skip = () => setState((s) => ({ ...s, length: s.text.length }));
+
+  return { shown: text.slice(0, length), done, skip };
+}
@@ -1,5 +1,6 @@
-import { createRoot } from "react-dom/client";
+import { createRoot, hydrateRoot } from "react-dom/client";
 import React from "react";
+import { BrowserRouter } from "react-router";
 import { App } from "./app/App.tsx";
 import "./styles/index.css";
 
@@ -25,8 +26,21 @@ class ErrorBoundary extends React.Component<
   }
 }
 
-createRoot(document.getElementById("root")!).render(
+const container = document.getElementById("root")!;
+// Pages emitted by scripts/prerender.mjs arrive with markup already in #root. 404.html is
+// served for any unknown path, so its markup won't match this one: render over it instead.
+const hydrating =
+  container.firstElementChild !== null && !container.hasAttribute("data-client-render");
+const app = (
   <ErrorBoundary>
-    <App />
+    <BrowserRouter>
+      <App hydrating={hydrating} />
+    </BrowserRouter>
   </ErrorBoundary>
 );
+
+if (hydrating) {
+  hydrateRoot(container, app);
+} else {
+  createRoot(container).render(app);
+}
@@ -38,14 +38,36 @@ export interface GalleryImage {
   title: string;
 }
 
+export interface HeroVideo {
+  src: string;
+  /** Frame shown before playback starts; defaults to `hero`. */
+  poster?: string;
+}
+
 export interface ProjectAssets {
+  /** Hero image. Also the fallback when `heroVideo` fails or reduced motion is on. */
   hero: string;
+  heroVideo?: HeroVideo;
   thumbnail?: string;
   gallery: GalleryImage[];
   /** How to arrange gallery; default 'grid'. */
   galleryLayout?: GalleryLayout;
 }
 
+/** One tile on the landing grid (3 columns, 180px rows). */
+export interface CardLayout {
+  colSpan: number;
+  rowSpan: number;
+}
+
+/** How a project appears on the landing page grid. */
+export interface ProjectLanding {
+  /** Tiles in order; the first carries the project label. Defaults to a six-tile layout. */
+  cards?: CardLayout[];
+  /** Background image per tile, by index. Tiles without one render as a gray block. */
+  images?: string[];
+}
+
 export interface Project {
   id: number;
   slug: string;
@@ -56,6 +78,7 @@ export interface Project {
   metadata: ProjectMetadata;
   content: ProjectContent;
   assets: ProjectAssets;
+  landing?: ProjectLanding;
 }
 
 // ─── About Me Data ───
@@ -100,9 +123,54 @@ export type DetailLevel = 'minimal' | 'balanced' | 'full';
 
 // ─── Ask System ───
 
+/** Something an Ask answer does to the board besides replying in the narrator. */
+export type AskAction =
+  /** Open a project. */
+  | { type: 'navigate'; projectId: number }
+  /** Ask "Want me to open it?"; a following "yes" opens it. */
+  | { type: 'offer'; projectId: number }
+  /** Sweep the discipline knobs to a new mix. */
+  | { type: 'filter'; mix: DisciplineMix }
+  /** Open a project one DETAIL step deeper. */
+  | { type: 'detail'; projectId: number }
+  /** Set view controls (HERO, META, DETAIL). */
+  | { type: 'view'; controls: Partial<ViewControls> }
+  | { type: 'home' }
+  /** Browser back. */
+  | { type: 'back' }
+  /** Open a project's gallery lightbox at a zero-based image index. */
+  | { type: 'gallery'; projectId: number; index: number }
+  | { type: 'copy-email'; email: string };
+
 export interface KeywordMatch {
   keywords: string[];
   response: string;
-  action?: 'navigate' | 'filter' | 'info';
-  payload?: unknown;
+  action?: AskAction;
+}
+
+/** A reply to an Ask question, from whichever provider answered it. */
+export interface AskAnswer {
+  response: string;
+  action?: AskAction;
 }
+
+// ─── Narrator ───
+
+/** Something worth telling the visitor. Anything can emit one; narratorMessages.ts words it. */
+export type NarratorEvent =
+  | { type: 'home-viewed' }
+  | { type: 'project-viewed'; title: string }
+  | { type: 'page-not-found'; pathname: string }
+  | { type: 'mix-changed'; mix: DisciplineMix }
+  | { type: 'view-changed'; control: 'heroEnabled' | 'metadataEnabled'; value: boolean }
+  | { type: 'view-changed'; control: 'detailDepth'; value: number }
+  | { type: 'ask-focused' }
+  | { type: 'ask-searching'; query: string }
+  /** `partial` while a streamed answer is still arriving. */
+  | { type: 'ask-answered'; response: string; partial?: boolean }
+  | { type: 'email-copied'; email: string; copied: boolean }
+  /** Nothing has happened for a while; `tip` points at a control not yet tried. */
+  | { type: 'idle'; tip: string };
+
+/** A control on the board the visitor can touch, for working out what they haven't tried. */
+export type BoardControl = 'slot' | keyof DisciplineMix | keyof ViewControls | 'ask';
@@ -0,0 +1,6 @@
+declare module 'virtual:projects' {
+  import type { Project } from '@/types';
+
+  const projects: Project[];
+  export default projects;
+}
@@ -0,0 +1,109 @@
+import type { AskAction, Project } from '@/types';
+import { getDetailLabel } from './formatters';
+import { normalizeWords } from './textMatch';
+
+export interface CommandContext {
+  /** Project that "image 3" refers to: the open one, or the last one talked about. */
+  project?: Project;
+  email: string;
+}
+
+export interface CommandResult {
+  response: string;
+  action?: AskAction;
+}
+
+const ON = '(?:show|turn on|enable|display|open|unhide)';
+const OFF = '(?:hide|turn off|disable|remove|close)';
+const THE = '(?: the| my| your)?';
+const META = '(meta|metadata|details panel|info panel)';
+const HERO = '(hero|hero image|hero video|banner)';
+
+type Rule = [RegExp, (match: RegExpMatchArray, context: CommandContext) => CommandResult];
+
+const onOff = (key: 'heroEnabled' | 'metadataEnabled', on: boolean, label: string): CommandResult => ({
+  response: `${label} ${on ? 'shown' : 'hidden'}.`,
+  action: { type: 'view', controls: { [key]: on } },
+});
+
+const detail = (detailDepth: number): CommandResult => ({
+  response: `Detail set to ${getDetailLabel(detailDepth)}.`,
+  action: { type: 'view', controls: { detailDepth } },
+});
+
+function openImage(which: string, { project }: CommandContext): CommandResult {
+  if (!project) return { response: 'Open a project first, then ask for one of its images.' };
+  const count = project.assets.gallery.length;
+  if (count === 0) return { response: `${project.title} has no gallery images.` };
+  const index = which === 'first' ? 0 : which === 'last' ? count - 1 : Number(which) - 1;
+  if (!Number.isInteger(index) || index < 0 || index >= count) {
+    return { response: `${project.title} has ${count} images; pick 1 to ${count}.` };
+  }
+  return {
+    response: `Image ${index + 1} of ${count}: ${project.assets.gallery[index].title}.`,
+    action: { type: 'gallery', projectId: project.id, index },
+  };
+}
+
+/** Whole-query patterns, tried in order against the normalised query text. */
+const RULES: Rule[] = [
+  [new RegExp(`^${ON}${THE} ${META}$`), () => onOff('metadataEnabled', true, 'Metadata')],
+  [new RegExp(`^${OFF}${THE} ${META}$`), () => onOff('metadataEnabled', false, 'Metadata')],
+  [new RegExp(`^${META} (on|off)$`), (m) => onOff('metadataEnabled', m[2] === 'on', 'Metadata')],
+  [new RegExp(`^${ON}${THE} ${HERO}$`), () => onOff('heroEnabled', true, 'Hero')],
+  [new RegExp(`^${OFF}${THE} ${HERO}$`), () => onOff('heroEnabled', false, 'Hero')],
+  [new RegExp(`^${HERO} (on|off)$`), (m) => onOff('heroEnabled', m[2] === 'on', 'Hero')],
+  [
+    /^(?:show(?: me)? (?:everything|it all|all)|everything|max(?:imum)? detail|full detail)$/,
+    () => ({
+      response: 'Everything on: hero, metadata and full detail.',
+      action: { type: 'view', controls: { heroEnabled: true, metadataEnabled: true, detailDepth: 100 } },
+    }),
+  ],
+  [/^(?:minimal|minimal detail|less detail|images only|just (?:the )?images|simplify)$/, () => detail(0)],
+  [/^(?:balanced|balanced detail|some detail)$/, () => detail(50)],
+  [
+    /^(?:set )?detail(?: depth)?(?: to)? (\d{1,3})(?: percent)?$/,
+    (m) => detail(Math.min(100, Number(m[1]))),
+  ],
+  [
+    /^(?:go )?home$|^(?:start over|back to(?: the)? start|home ?page|landing page)$/,
+    () => ({ response: 'Back to the start.', action: { type: 'home' } }),
+  ],
+  [
+    /^(?:go )?back$|^previous page$/,
+    () => ({ response: 'Going back.', action: { type: 'back' } }),
+  ],
+  [
+    /^(?:open|show|view|see)?(?: me)?(?: the)? ?(?:image|picture|photo|drawing|slide)(?: number)? (\d+)$/,
+    (m, context) => openImage(m[1], context),
+  ],
+  [
+    /^(?:open|show|view|see)?(?: me)?(?: the)? ?(first|last) (?:image|picture|photo|drawing|slide)$/,
+    (m, context) => openImage(m[1], context),
+  ],
+  [
+    /\bcopy\b.*\b(?:email|address)\b/,
+    // Only the clipboard's answer (the `email-copied` narration) says whether it worked.
+    (_m, { email }) => ({
+      response: `Copying ${email} to your clipboard...`,
+      action: { type: 'copy-email', email },
+    }),
+  ],
+];
+
+/**
+ * Recognises a direct instruction to the board, e.g. "hide metadata", "show me
+ * everything", "go back", "open image 3" or "copy your email". Returns null for anything
+ * else, which is then answered as a question.
+ */
+export function parseCommand(query: string, context: CommandContext): CommandResult | null {
+  const words = normalizeWords(query);
+  if (words[0] === 'please') words.shift();
+  const text = words.join(' ');
+  for (const [pattern, run] of RULES) {
+    const match = text.match(pattern);
+    if (match) return run(match, context);
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+import { normalizeWords } from './textMatch';
+
+/** What the Ask system remembers between questions. */
+export interface DialogueState {
+  /** Project the conversation is about: the last one answered about, offered or opened. */
+  lastProjectId: number | null;
+  /** Project offered with "Want me to open it?", waiting for yes or no. */
+  offerProjectId: number | null;
+  /** Ranked projects from the last search, so "next one" can walk through them. */
+  resultIds: number[];
+  resultIndex: number;
+}
+
+export const INITIAL_DIALOGUE: DialogueState = {
+  lastProjectId: null,
+  offerProjectId: null,
+  resultIds: [],
+  resultIndex: 0,
+};
+
+export type FollowUp = 'affirm' | 'negate' | 'next' | 'more' | 'tools';
+
+/** Whole-query phrasings, compared after normalizeWords(). */
+const AFFIRM = [
+  'yes', 'yeah', 'yep', 'yup', 'sure', 'ok', 'okay', 'please', 'yes please', 'do it',
+  'go ahead', 'open it', 'open', 'show me', 'show it', 'let s see', 'lets see', 'y',
+];
+const NEGATE = ['no', 'nope', 'nah', 'no thanks', 'not now', 'never mind', 'nevermind', 'skip', 'n'];
+const NEXT = ['next', 'next one', 'another', 'another one', 'what else', 'something else', 'other one'];
+const MORE = [
+  'more', 'tell me more', 'more detail', 'more details', 'go deeper', 'elaborate',
+  'details', 'keep going', 'go on',
+];
+
+/** Pronouns that point back at the project under discussion. */
+const REFERENCES = new Set(['it', 'that', 'this', 'they', 'there', 'one', 'project']);
+
+const matches = (phrases: string[], text: string) => phrases.includes(text);
+
+/**
+ * Recognises a reply that only makes sense against the previous answer. Returns null for
+ * anything that should be searched as a fresh question.
+ */
+export function detectFollowUp(query: string): FollowUp | null {
+  const words = normalizeWords(query);
+  // Drop a polite tail so "yes please" and "tell me more thanks" still match.
+  while (words.length > 1 && ['please', 'thanks', 'thank', 'you'].includes(words[words.length - 1])) {
+    words.pop();
+  }
+  const text = words.join(' ');
+  if (matches(AFFIRM, text)) return 'affirm';
+  if (matches(NEGATE, text)) return 'negate';
+  if (matches(NEXT, text)) return 'next';
+  if (matches(MORE, text)) return 'more';
+  if (words.some((w) => w === 'tools' || w === 'tool' || w === 'stack') && words.some((w) => REFERENCES.has(w))) {
+    return 'tools';
+  }
+  return null;
+}
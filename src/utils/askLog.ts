@@ -0,0 +1,147 @@
+import { STOPWORDS } from './searchIndex';
+import { normalizeWords } from './textMatch';
+
+/** A question Ask couldn't answer, or answered on a weak match. */
+export interface UnansweredQuestion {
+  query: string;
+  reason: 'unanswered' | 'low-confidence';
+  /** What Ask replied, so a weak answer can be judged later. */
+  response: string;
+  /** Project open when it was asked. */
+  projectId: number | null;
+  /** ISO timestamp. */
+  askedAt: string;
+}
+
+/** Somewhere unanswered questions are sent. Recording never throws. */
+export interface AskLogSink {
+  record(entry: UnansweredQuestion): void;
+}
+
+/** A sink that can also be read back, for the author view. */
+export interface AskLogStore extends AskLogSink {
+  read(): UnansweredQuestion[];
+  clear(): void;
+}
+
+const STORAGE_KEY = 'djboard.ask-log';
+
+/** Oldest entries are dropped past this, so storage can't fill up. */
+const MAX_STORED = 500;
+
+const isEntry = (value: unknown): value is UnansweredQuestion =>
+  typeof value === 'object' &&
+  value != null &&
+  typeof (value as UnansweredQuestion).query === 'string' &&
+  typeof (value as UnansweredQuestion).askedAt === 'string';
+
+/** Keeps entries in this browser's localStorage. Missing or blocked storage records nothing. */
+export function createLocalStorageSink(key = STORAGE_KEY, limit = MAX_STORED): AskLogStore {
+  const read = (): UnansweredQuestion[] => {
+    try {
+      const raw = JSON.parse(window.localStorage.getItem(key) ?? '[]');
+      return Array.isArray(raw) ? raw.filter(isEntry) : [];
+    } catch {
+      return [];
+    }
+  };
+  return {
+    read,
+    record(entry) {
+      try {
+        window.localStorage.setItem(key, JSON.stringify([...read(), entry].slice(-limit)));
+      } catch {
+        // Private mode or a full quota: this one goes unrecorded.
+      }
+    },
+    clear() {
+      try {
+        window.localStorage.removeItem(key);
+      } catch {
+        // Nothing stored, nothing to clear.
+      }
+    },
+  };
+}
+
+/** POSTs each entry as JSON. Fire-and-forget: failures are dropped, never retried. */
+export function createHttpSink(endpoint: string, fetchImpl: typeof fetch = globalThis.fetch): AskLogSink {
+  return {
+    record(entry) {
+      try {
+        fetchImpl(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(entry),
+          keepalive: true,
+        }).catch(() => {});
+      } catch {
+        // No fetch (e.g. an old browser): skip.
+      }
+    },
+  };
+}
+
+export function combineSinks(sinks: AskLogSink[]): AskLogSink {
+  return { record: (entry) => sinks.forEach((sink) => sink.record(entry)) };
+}
+
+/** This browser's log; what the author view reads. */
+export const localAskLog = createLocalStorageSink();
+
+/** localStorage always, plus VITE_ASK_LOG_ENDPOINT when it is set. */
+export function getConfiguredLogSink(): AskLogSink {
+  const endpoint = import.meta.env.VITE_ASK_LOG_ENDPOINT?.trim();
+  return endpoint ? combineSinks([localAskLog, createHttpSink(endpoint)]) : localAskLog;
+}
+
+/** Unanswered questions that read the same once stopwords and punctuation are dropped. */
+export interface QuestionGroup {
+  /** The shared words, e.g. "salary expectations"; also the group key. */
+  key: string;
+  count: number;
+  /** Most recent wording. */
+  example: string;
+  /** Every distinct wording, most recent first. */
+  variants: string[];
+  unanswered: number;
+  lowConfidence: number;
+  lastAskedAt: string;
+  /** Candidate `keywords` for a new KeywordMatch entry. */
+  suggestedKeywords: string[];
+}
+
+const groupKey = (query: string) => {
+  const words = normalizeWords(query);
+  const content = words.filter((w) => !STOPWORDS.has(w));
+  return (content.length > 0 ? content : words).join(' ');
+};
+
+/** Groups the log by question, most frequent first (ties: most recent first). */
+export function groupUnanswered(entries: UnansweredQuestion[]): QuestionGroup[] {
+  const groups = new Map<string, QuestionGroup>();
+  const newestFirst = [...entries].sort((a, b) => b.askedAt.localeCompare(a.askedAt));
+  for (const entry of newestFirst) {
+    const key = groupKey(entry.query);
+    if (!key) continue;
+    const group = groups.get(key) ?? {
+      key,
+      count: 0,
+      example: entry.query.trim(),
+      variants: [],
+      unanswered: 0,
+      lowConfidence: 0,
+      lastAskedAt: entry.askedAt,
+      suggestedKeywords: key.split(' ').filter((w) => w.length > 2),
+    };
+    group.count += 1;
+    if (entry.reason === 'unanswered') group.unanswered += 1;
+    else group.lowConfidence += 1;
+    const wording = entry.query.trim();
+    if (!group.variants.includes(wording)) group.variants.push(wording);
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt)
+  );
+}
@@ -0,0 +1,177 @@
+import type { AskAction, AskAnswer, ViewControls } from '@/types';
+
+/** What a provider is told about a question. */
+export interface AskRequest {
+  query: string;
+  /** Project open on screen, if any. */
+  currentProjectId: number | null;
+  /** Project the conversation was last about, so "it" can be resolved remotely too. */
+  lastProjectId: number | null;
+}
+
+export interface AskOptions {
+  /** Aborts the request, e.g. when a newer question replaces it. */
+  signal?: AbortSignal;
+  /** Called with each streamed piece of the response, in order. */
+  onToken?: (text: string) => void;
+}
+
+/** Something that can answer an Ask question. Rejects when it can't. */
+export interface AskProvider {
+  readonly name: string;
+  ask(request: AskRequest, options?: AskOptions): Promise<AskAnswer>;
+}
+
+export interface HttpProviderConfig {
+  endpoint: string;
+  /** Whole-request limit, streaming included. */
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export const DEFAULT_ASK_TIMEOUT_MS = 8000;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value != null;
+
+const isId = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isPercent = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 100;
+
+function parseViewControls(value: unknown): Partial<ViewControls> | undefined {
+  if (!isObject(value)) return undefined;
+  const controls: Partial<ViewControls> = {};
+  if (typeof value.heroEnabled === 'boolean') controls.heroEnabled = value.heroEnabled;
+  if (typeof value.metadataEnabled === 'boolean') controls.metadataEnabled = value.metadataEnabled;
+  if (isPercent(value.detailDepth)) controls.detailDepth = Math.round(value.detailDepth);
+  return Object.keys(controls).length > 0 ? controls : undefined;
+}
+
+/**
+ * Checks an action that arrived over the network. Anything malformed is dropped (the
+ * answer is still shown), so a backend bug can't put the board in an impossible state.
+ */
+export function parseAskAction(value: unknown): AskAction | undefined {
+  if (!isObject(value)) return undefined;
+  switch (value.type) {
+    case 'navigate':
+    case 'offer':
+    case 'detail':
+      return isId(value.projectId) ? { type: value.type, projectId: value.projectId } : undefined;
+    case 'filter': {
+      const mix = value.mix;
+      if (!isObject(mix) || ![mix.arch, mix.prod, mix.sw].every(isPercent)) return undefined;
+      const { arch, prod, sw } = mix as Record<'arch' | 'prod' | 'sw', number>;
+      return arch + prod + sw === 100 ? { type: 'filter', mix: { arch, prod, sw } } : undefined;
+    }
+    case 'view': {
+      const controls = parseViewControls(value.controls);
+      return controls ? { type: 'view', controls } : undefined;
+    }
+    case 'home':
+    case 'back':
+      return { type: value.type };
+    case 'gallery':
+      return isId(value.projectId) && isId(value.index)
+        ? { type: 'gallery', projectId: value.projectId, index: value.index }
+        : undefined;
+    case 'copy-email':
+      return typeof value.email === 'string' && value.email.includes('@')
+        ? { type: 'copy-email', email: value.email }
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Splits a byte stream into parsed NDJSON lines. Blank lines are skipped; a line that
+ * isn't JSON fails the whole answer.
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line);
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Asks an HTTP backend. The question is POSTed as JSON and the reply streamed back as
+ * NDJSON, one event per line:
+ *
+ *   {"type":"token","text":"Search by "}
+ *   {"type":"answer","response":"Search by Assembly …","action":{"type":"offer","projectId":4}}
+ *   {"type":"error","message":"…"}
+ *
+ * `answer` is optional; without it the tokens joined are the response. Rejects on HTTP
+ * errors, an `error` event, a malformed line, an empty reply or after `timeoutMs`.
+ */
+export function createHttpProvider({
+  endpoint,
+  timeoutMs = DEFAULT_ASK_TIMEOUT_MS,
+  fetch: fetchImpl = globalThis.fetch,
+}: HttpProviderConfig): AskProvider {
+  return {
+    name: 'http',
+    async ask(request, { signal, onToken } = {}) {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      const timer = setTimeout(abort, timeoutMs);
+      signal?.addEventListener('abort', abort);
+      try {
+        const res = await fetchImpl(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/x-ndjson' },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) throw new Error(`Ask backend responded ${res.status}`);
+
+        let streamed = '';
+        for await (const event of readLines(res.body)) {
+          if (!isObject(event)) continue;
+          if (event.type === 'token' && typeof event.text === 'string') {
+            streamed += event.text;
+            onToken?.(event.text);
+          } else if (event.type === 'answer') {
+            const response = typeof event.response === 'string' ? event.response : streamed;
+            if (!response.trim()) break;
+            return { response, action: parseAskAction(event.action) };
+          } else if (event.type === 'error') {
+            throw new Error(`Ask backend error: ${String(event.message ?? 'unknown')}`);
+          }
+        }
+        if (!streamed.trim()) throw new Error('Ask backend sent no answer');
+        return { response: streamed };
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+      }
+    },
+  };
+}
+
+/** The configured backend, or null when Ask should stay on the local engine. */
+export function getConfiguredProvider(): AskProvider | null {
+  const endpoint = import.meta.env.VITE_ASK_ENDPOINT?.trim();
+  if (!endpoint) return null;
+  const timeoutMs = Number(import.meta.env.VITE_ASK_TIMEOUT_MS);
+  return createHttpProvider({
+    endpoint,
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_ASK_TIMEOUT_MS,
+  });
+}
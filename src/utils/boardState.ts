@@ -0,0 +1,135 @@
+import type { DisciplineMix, ViewControls } from '@/types';
+import { updateDisciplineMix } from './disciplineMath';
+import { getDetailLabel } from './formatters';
+
+export const DEFAULT_DISCIPLINE_MIX: DisciplineMix = { arch: 33, prod: 34, sw: 33 };
+
+/** One discipline up front, the other two in the background; used by Ask and the palette. */
+export const FOCUS_MIXES: Record<keyof DisciplineMix, DisciplineMix> = {
+  arch: { arch: 80, prod: 10, sw: 10 },
+  prod: { arch: 10, prod: 80, sw: 10 },
+  sw: { arch: 10, prod: 10, sw: 80 },
+};
+
+export const DEFAULT_VIEW_CONTROLS: ViewControls = {
+  heroEnabled: true,
+  metadataEnabled: false,
+  detailDepth: 25,
+};
+
+export interface BoardState {
+  disciplineMix: DisciplineMix;
+  viewControls: ViewControls;
+}
+
+/** Query parameter names. Short on purpose; these end up in shared links. */
+export const BOARD_PARAMS = {
+  arch: 'arch',
+  prod: 'prod',
+  sw: 'sw',
+  hero: 'hero',
+  meta: 'meta',
+  detail: 'detail',
+} as const;
+
+const MIX_KEYS: Array<keyof DisciplineMix> = ['arch', 'prod', 'sw'];
+
+/** Depths the DETAIL knob lands on when raised a step: balanced, then full. */
+const DETAIL_STEPS = [50, 100];
+
+/** The next detail step up from `depth`, e.g. for "tell me more". Full stays full. */
+export function raiseDetailDepth(depth: number): number {
+  return DETAIL_STEPS.find((step) => step > depth && getDetailLabel(step) !== getDetailLabel(depth)) ?? depth;
+}
+
+export function isSameMix(a: DisciplineMix, b: DisciplineMix): boolean {
+  return MIX_KEYS.every((k) => a[k] === b[k]);
+}
+
+export function isSameViewControls(a: ViewControls, b: ViewControls): boolean {
+  return (
+    a.heroEnabled === b.heroEnabled &&
+    a.metadataEnabled === b.metadataEnabled &&
+    a.detailDepth === b.detailDepth
+  );
+}
+
+/** Reads a 0–100 value. Anything non-numeric is ignored; out-of-range values are clamped. */
+function parsePercent(raw: string | null): number | undefined {
+  if (raw == null || raw.trim() === '') return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return undefined;
+  return Math.max(0, Math.min(100, Math.round(n)));
+}
+
+function parseFlag(raw: string | null): boolean | undefined {
+  if (raw == null) return undefined;
+  const v = raw.trim().toLowerCase();
+  if (v === '1' || v === 'true' || v === 'on') return true;
+  if (v === '0' || v === 'false' || v === 'off') return false;
+  return undefined;
+}
+
+/**
+ * Hydrates board state from a query string. The mix knobs it names are turned one by one
+ * through updateDisciplineMix, exactly as if the visitor had turned them.
+ */
+export function parseBoardState(params: URLSearchParams): BoardState {
+  const parsed = {
+    arch: parsePercent(params.get(BOARD_PARAMS.arch)),
+    prod: parsePercent(params.get(BOARD_PARAMS.prod)),
+    sw: parsePercent(params.get(BOARD_PARAMS.sw)),
+  };
+  const given = MIX_KEYS.flatMap((knob) => {
+    const value = parsed[knob];
+    return value === undefined ? [] : [{ knob, value }];
+  });
+  const complete =
+    given.length === MIX_KEYS.length && given.reduce((sum, { value }) => sum + value, 0) === 100;
+
+  // One pass leaves a complete mix slightly off, since later knobs rebalance earlier ones;
+  // three land exactly on every mix that sums to 100 (all 5,151 of them were checked), so
+  // a shared link opens as it was sent. Otherwise the last knob wins, as on the board.
+  let disciplineMix = DEFAULT_DISCIPLINE_MIX;
+  for (let pass = 0; pass < (complete ? 3 : 1); pass++) {
+    for (const { knob, value } of given) {
+      disciplineMix = updateDisciplineMix(disciplineMix, knob, value);
+    }
+  }
+
+  const viewControls: ViewControls = {
+    heroEnabled: parseFlag(params.get(BOARD_PARAMS.hero)) ?? DEFAULT_VIEW_CONTROLS.heroEnabled,
+    metadataEnabled:
+      parseFlag(params.get(BOARD_PARAMS.meta)) ?? DEFAULT_VIEW_CONTROLS.metadataEnabled,
+    detailDepth:
+      parsePercent(params.get(BOARD_PARAMS.detail)) ?? DEFAULT_VIEW_CONTROLS.detailDepth,
+  };
+
+  return { disciplineMix, viewControls };
+}
+
+/**
+ * Writes board state onto a copy of `base`, leaving unrelated parameters alone.
+ * Defaults are omitted so an untouched board keeps a clean URL.
+ */
+export function serializeBoardState(
+  { disciplineMix, viewControls }: BoardState,
+  base?: URLSearchParams
+): URLSearchParams {
+  const params = new URLSearchParams(base);
+  Object.values(BOARD_PARAMS).forEach((key) => params.delete(key));
+
+  if (!isSameMix(disciplineMix, DEFAULT_DISCIPLINE_MIX)) {
+    MIX_KEYS.forEach((k) => params.set(BOARD_PARAMS[k], String(Math.round(disciplineMix[k]))));
+  }
+  if (viewControls.heroEnabled !== DEFAULT_VIEW_CONTROLS.heroEnabled) {
+    params.set(BOARD_PARAMS.hero, viewControls.heroEnabled ? '1' : '0');
+  }
+  if (viewControls.metadataEnabled !== DEFAULT_VIEW_CONTROLS.metadataEnabled) {
+    params.set(BOARD_PARAMS.meta, viewControls.metadataEnabled ? '1' : '0');
+  }
+  if (viewControls.detailDepth !== DEFAULT_VIEW_CONTROLS.detailDepth) {
+    params.set(BOARD_PARAMS.detail, String(Math.round(viewControls.detailDepth)));
+  }
+  return params;
+}
@@ -64,3 +64,16 @@ export function scoreProject(project: Project, mix: DisciplineMix): number {
     (d.sw / 100) * (mix.sw / 100)
   );
 }
+
+/** Blends two mixes at `t` (0–1), rounded to whole percents that still total 100. */
+export function interpolateMix(
+  from: DisciplineMix,
+  to: DisciplineMix,
+  t: number
+): DisciplineMix {
+  const lerp = (a: number, b: number) => Math.round(a + (b - a) * t);
+  const arch = lerp(from.arch, to.arch);
+  // Both halves can round up when sw is 0 at either end; keep arch + prod within 100.
+  const prod = Math.min(lerp(from.prod, to.prod), 100 - arch);
+  return { arch, prod, sw: 100 - arch - prod };
+}
@@ -0,0 +1,56 @@
+import type { BoardControl } from '@/types';
+
+export interface IdleTips {
+  /** Counts `control` as explored; its tip is never offered again. */
+  touch(control: BoardControl): void;
+  /**
+   * The tip for this idle moment, or null when every untried control's tip was offered too
+   * recently. Call once per idle moment: the cooldown counts calls.
+   */
+  next(): string | null;
+  /** True once every control has been touched, so there will never be another tip. */
+  allExplored(): boolean;
+}
+
+export interface IdleTipsOptions {
+  /** One tip per control, offered in key order. */
+  tips: Record<BoardControl, string>;
+  /** Idle moments that must pass before the same tip is offered again. */
+  cooldown?: number;
+}
+
+const DEFAULT_COOLDOWN = 3;
+
+/**
+ * Rotates through tips for controls the visitor hasn't touched yet. Each idle moment
+ * offers the next untried control's tip that is off cooldown, or skips a turn if the only
+ * ones left were offered too recently. Once every control has been touched there is
+ * nothing more to say.
+ */
+export function createIdleTips({ tips, cooldown = DEFAULT_COOLDOWN }: IdleTipsOptions): IdleTips {
+  const controls = Object.keys(tips) as BoardControl[];
+  const explored = new Set<BoardControl>();
+  const lastOffered = new Map<BoardControl, number>();
+  let round = 0;
+  let cursor = 0;
+
+  return {
+    touch(control) {
+      explored.add(control);
+    },
+    next() {
+      round++;
+      for (let i = 0; i < controls.length; i++) {
+        const control = controls[(cursor + i) % controls.length];
+        if (explored.has(control)) continue;
+        const offered = lastOffered.get(control);
+        if (offered !== undefined && round - offered <= cooldown) continue;
+        lastOffered.set(control, round);
+        cursor = (cursor + i + 1) % controls.length;
+        return tips[control];
+      }
+      return null;
+    },
+    allExplored: () => explored.size === controls.length,
+  };
+}
@@ -0,0 +1,107 @@
+import type { AboutData, KeywordMatch, Project } from '@/types';
+import { STOPWORDS } from './searchIndex';
+
+/**
+ * Words that name a discipline rather than a project. They belong to the hand-written
+ * persona entries (which re-weight the mix), so project entries never claim them.
+ */
+const DISCIPLINE_WORDS = new Set([
+  'architecture', 'architectural', 'arch', 'product', 'design', 'designer', 'software',
+  'engineering', 'project',
+]);
+
+const MIN_WORD_LENGTH = 4;
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}-]+/u)
+    .filter((w) => w.length >= MIN_WORD_LENGTH && !STOPWORDS.has(w) && !DISCIPLINE_WORDS.has(w));
+}
+
+const sentence = (text: string) => (/[.!?]$/.test(text.trim()) ? text.trim() : `${text.trim()}.`);
+
+/** Phrases and distinctive words a visitor might use to name this project. */
+function projectTerms(project: Project): { phrases: string[]; words: string[] } {
+  const { metadata } = project;
+  const phrases = [project.title, project.slotLabel]
+    .filter((p): p is string => Boolean(p))
+    .map((p) => p.toLowerCase());
+  const sources = [
+    project.title,
+    project.slotLabel ?? '',
+    metadata.category,
+    metadata.client,
+    metadata.course ?? '',
+    ...metadata.collaborators,
+    ...metadata.tools,
+  ];
+  return { phrases, words: [...new Set(sources.flatMap(words))] };
+}
+
+/**
+ * One entry per project that offers to open it, keyed on its title, label, category, client, course,
+ * collaborators and tools. Words shared by several projects (e.g. "austin", "rhino") are
+ * dropped so each entry only matches what is distinctive about its project, as are words
+ * already claimed by the `reserved` entries.
+ */
+export function buildProjectEntries(
+  projects: Project[],
+  reserved: KeywordMatch[] = []
+): KeywordMatch[] {
+  const terms = projects.map(projectTerms);
+  const usage = new Map<string, number>();
+  terms.forEach(({ words: ws }) => ws.forEach((w) => usage.set(w, (usage.get(w) ?? 0) + 1)));
+  reserved.forEach(({ keywords }) => keywords.forEach((k) => usage.set(k, Infinity)));
+
+  return projects.map((project, i) => ({
+    keywords: [
+      ...terms[i].phrases,
+      ...terms[i].words.filter((w) => usage.get(w) === 1),
+    ],
+    response: `${project.title} — ${sentence(project.content.summary)}`,
+    action: { type: 'offer', projectId: project.id },
+  }));
+}
+
+/**
+ * Contact, education and skills answers, read from AboutData so they can't drift from the
+ * About page. `availability` is appended to the contact answer.
+ */
+export function buildAboutEntries(about: AboutData, availability = ''): KeywordMatch[] {
+  const { contact, education, skills } = about;
+  const contactParts = [
+    `You can reach me at ${contact.email}.`,
+    contact.linkedin ? `LinkedIn: ${contact.linkedin}.` : '',
+    contact.location ? `Based in ${contact.location}.` : '',
+    availability,
+  ];
+  const studies = education.map(
+    ({ degree, institution, year }) => `${degree} at ${institution} (${year})`
+  );
+  const skillList = [
+    ...skills.architecture,
+    ...skills.productDesign,
+    ...skills.software,
+  ].map((s) => s.toLowerCase());
+
+  const entries: KeywordMatch[] = [
+    {
+      keywords: ['contact', 'email', 'reach', 'hire', 'available', 'freelance', 'linkedin'],
+      response: contactParts.filter(Boolean).join(' '),
+    },
+  ];
+  if (studies.length > 0) {
+    entries.push({
+      keywords: ['education', 'school', 'degree', 'university', 'study', 'studied'],
+      response: `I studied: ${studies.join('; ')}.`,
+    });
+  }
+  if (skillList.length > 0) {
+    entries.push({
+      keywords: ['skills', 'skill', 'expertise', 'good at', 'strengths'],
+      response: `My skills: ${skillList.join(', ')}.`,
+    });
+  }
+  return entries;
+}
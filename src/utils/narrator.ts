@@ -0,0 +1,215 @@
+import type { Narration } from '@/data/narratorMessages';
+import type { BoardControl, NarratorEvent } from '@/types';
+import type { IdleTips } from '@/utils/idleTips';
+
+/** A narration on screen. */
+export interface NarratorMessage extends Narration {
+  /** Increases with every message shown, including in-place replacements. */
+  id: number;
+  event: NarratorEvent;
+  shownAt: number;
+}
+
+export interface Narrator {
+  emit(event: NarratorEvent): void;
+  /**
+   * Ends the current message's minimum time and drops the queue: the visitor has touched
+   * a control, so whatever that control narrates should show straight away. Naming the
+   * control also retires its idle tip.
+   */
+  release(control?: BoardControl): void;
+  getMessage(): NarratorMessage;
+  /**
+   * Messages shown this session, oldest first and ending with the current one. A message
+   * that updates its predecessor in place (a knob drag, a streaming answer) replaces it here too.
+   */
+  getHistory(): readonly NarratorMessage[];
+  /** Empties the history and the queue and shows the initial message again. */
+  reset(): void;
+  subscribe(listener: () => void): () => void;
+  /** Starts the idle timer. Call once mounted in the browser; the server never starts it. */
+  start(): void;
+  /** Clears every timer; `start` may be called again afterwards. */
+  dispose(): void;
+}
+
+export interface NarratorClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): ReturnType<typeof setTimeout>;
+  clearTimeout(handle: ReturnType<typeof setTimeout>): void;
+}
+
+export interface NarratorOptions {
+  describe: (event: NarratorEvent) => Narration;
+  /** Shown before anything is emitted. */
+  initialEvent: NarratorEvent;
+  /** Quiet time before an `idle` event is emitted. */
+  idleMs?: number;
+  /**
+   * Picks each idle event's tip. Without it idle time stays quiet; with it, idle moments
+   * keep coming until every control has been explored.
+   */
+  idleTips?: IdleTips;
+  /** Waiting messages kept at most; the least important are dropped first. */
+  maxQueue?: number;
+  /** History entries kept at most; the oldest are dropped first. */
+  maxHistory?: number;
+  clock?: NarratorClock;
+}
+
+interface Queued {
+  narration: Narration;
+  event: NarratorEvent;
+  queuedAt: number;
+}
+
+const DEFAULT_IDLE_MS = 10000;
+const DEFAULT_MAX_QUEUE = 4;
+const DEFAULT_MAX_HISTORY = 50;
+
+const systemClock: NarratorClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+};
+
+/**
+ * The narrator as a small state machine. Each event is worded by `describe` and then:
+ *
+ * - replaces the current message in place if it shares its key (a knob being dragged);
+ * - shows at once if the current message has had its minimum time, or ranks lower;
+ * - otherwise waits in a queue, replacing any queued message with the same key, and is
+ *   shown in priority order once the screen frees up, unless it has gone stale.
+ *
+ * Any event other than `idle` restarts the idle timer, and each idle moment schedules the
+ * next, so tips keep rotating while the visitor stays idle. Every message shown is also
+ * kept in a capped history; a same-key replacement by the same kind of event overwrites
+ * its entry.
+ */
+export function createNarrator({
+  describe,
+  initialEvent,
+  idleMs = DEFAULT_IDLE_MS,
+  idleTips,
+  maxQueue = DEFAULT_MAX_QUEUE,
+  maxHistory = DEFAULT_MAX_HISTORY,
+  clock = systemClock,
+}: NarratorOptions): Narrator {
+  const listeners = new Set<() => void>();
+  let nextId = 0;
+  let message: NarratorMessage = {
+    ...describe(initialEvent),
+    id: nextId++,
+    event: initialEvent,
+    shownAt: clock.now(),
+  };
+  let history: readonly NarratorMessage[] = [message];
+  let holdUntil = 0;
+  let queue: Queued[] = [];
+  let advanceTimer: ReturnType<typeof setTimeout> | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let started = false;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const clearAdvance = () => {
+    if (advanceTimer) clock.clearTimeout(advanceTimer);
+    advanceTimer = null;
+  };
+
+  const scheduleAdvance = () => {
+    clearAdvance();
+    if (queue.length === 0) return;
+    advanceTimer = clock.setTimeout(advance, Math.max(0, holdUntil - clock.now()));
+  };
+
+  function show(narration: Narration, event: NarratorEvent) {
+    const now = clock.now();
+    const updatesLast = narration.key === message.key && event.type === message.event.type;
+    message = { ...narration, id: nextId++, event, shownAt: now };
+    history = [...(updatesLast ? history.slice(0, -1) : history), message].slice(-maxHistory);
+    holdUntil = now + narration.minDurationMs;
+    scheduleAdvance();
+    notify();
+  }
+
+  function advance() {
+    advanceTimer = null;
+    const now = clock.now();
+    queue = queue.filter((q) => now - q.queuedAt <= q.narration.maxWaitMs);
+    if (queue.length === 0) return;
+    // Highest priority first; the queue is in arrival order, so ties go first-come.
+    const next = queue.reduce((best, q) => (q.narration.priority > best.narration.priority ? q : best));
+    queue = queue.filter((q) => q !== next);
+    show(next.narration, next.event);
+  }
+
+  function enqueue(narration: Narration, event: NarratorEvent) {
+    const item = { narration, event, queuedAt: clock.now() };
+    const same = queue.findIndex((q) => q.narration.key === narration.key);
+    if (same >= 0) queue.splice(same, 1);
+    queue.push(item);
+    while (queue.length > maxQueue) {
+      const weakest = queue.reduce((low, q) => (q.narration.priority < low.narration.priority ? q : low));
+      queue = queue.filter((q) => q !== weakest);
+    }
+    scheduleAdvance();
+  }
+
+  function restartIdle() {
+    if (!started) return;
+    if (idleTimer) clock.clearTimeout(idleTimer);
+    idleTimer = clock.setTimeout(() => {
+      idleTimer = null;
+      if (!idleTips || idleTips.allExplored()) return;
+      // A turn without a tip (all on cooldown) still counts as an idle moment.
+      const tip = idleTips.next();
+      if (tip) emit({ type: 'idle', tip });
+      restartIdle();
+    }, idleMs);
+  }
+
+  function emit(event: NarratorEvent) {
+    if (event.type !== 'idle') restartIdle();
+    const narration = describe(event);
+    const free = clock.now() >= holdUntil;
+    if (narration.key === message.key || free || narration.priority > message.priority) {
+      show(narration, event);
+    } else if (narration.maxWaitMs > 0) {
+      enqueue(narration, event);
+    }
+  }
+
+  return {
+    emit,
+    release(control) {
+      if (control) idleTips?.touch(control);
+      holdUntil = 0;
+      queue = [];
+      clearAdvance();
+    },
+    getMessage: () => message,
+    getHistory: () => history,
+    reset() {
+      holdUntil = 0;
+      queue = [];
+      history = [];
+      restartIdle();
+      show(describe(initialEvent), initialEvent);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    start() {
+      started = true;
+      restartIdle();
+    },
+    dispose() {
+      started = false;
+      clearAdvance();
+      if (idleTimer) clock.clearTimeout(idleTimer);
+      idleTimer = null;
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import type { Narrator, NarratorClock, NarratorMessage } from '@/utils/narrator';
+
+/** The part of the Web Speech API the narrator uses, so tests can stand in a mock. */
+export interface SpeechEngine {
+  getVoices(): SpeechSynthesisVoice[];
+  /** Calls `listener` when the voice list changes (browsers load voices late); returns an unsubscribe. */
+  onVoicesChanged(listener: () => void): () => void;
+  speak(text: string, voice: SpeechSynthesisVoice | null): void;
+  cancel(): void;
+}
+
+/**
+ * Wraps a `speechSynthesis` and its utterance constructor: the browser's in the app, or
+ * mocks to drive the narrator's speech without audio.
+ */
+export function createSpeechEngine(
+  synth: SpeechSynthesis,
+  Utterance: typeof SpeechSynthesisUtterance
+): SpeechEngine {
+  return {
+    getVoices: () => synth.getVoices(),
+    onVoicesChanged(listener) {
+      synth.addEventListener('voiceschanged', listener);
+      return () => synth.removeEventListener('voiceschanged', listener);
+    },
+    speak(text, voice) {
+      const utterance = new Utterance(text);
+      if (voice) {
+        utterance.voice = voice;
+        utterance.lang = voice.lang;
+      }
+      synth.speak(utterance);
+    },
+    cancel: () => synth.cancel(),
+  };
+}
+
+/** The browser's speech engine, or null where there is none (the server, older browsers). */
+export function getBrowserSpeech(): SpeechEngine | null {
+  if (typeof window === 'undefined') return null;
+  if (!('speechSynthesis' in window) || typeof window.SpeechSynthesisUtterance !== 'function') return null;
+  return createSpeechEngine(window.speechSynthesis, window.SpeechSynthesisUtterance);
+}
+
+export interface NarratorSpeaker {
+  /** Stops speaking and listening to the narrator. */
+  dispose(): void;
+}
+
+export interface NarratorSpeakerOptions {
+  narrator: Narrator;
+  speech: SpeechEngine;
+  voice?: SpeechSynthesisVoice | null;
+  /** How long a mix message must stay on screen before it is read out. */
+  mixSettleMs?: number;
+  clock?: Pick<NarratorClock, 'setTimeout' | 'clearTimeout'>;
+}
+
+const DEFAULT_MIX_SETTLE_MS = 900;
+
+const systemClock: NonNullable<NarratorSpeakerOptions['clock']> = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+};
+
+/** A streamed answer is read once it is complete, not word by word. */
+const isPartial = (message: NarratorMessage) =>
+  message.event.type === 'ask-answered' && message.event.partial === true;
+
+/**
+ * Reads narrator messages aloud, starting with the one on screen. A new message cuts off
+ * whatever is still being said, since it no longer matches the screen. Mix messages are
+ * only read once a knob has come to rest, so a drag doesn't speak every step along the way.
+ */
+export function createNarratorSpeaker({
+  narrator,
+  speech,
+  voice = null,
+  mixSettleMs = DEFAULT_MIX_SETTLE_MS,
+  clock = systemClock,
+}: NarratorSpeakerOptions): NarratorSpeaker {
+  let lastId: number | null = null;
+  let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearSettle = () => {
+    if (settleTimer) clock.clearTimeout(settleTimer);
+    settleTimer = null;
+  };
+
+  const handleMessage = () => {
+    const message = narrator.getMessage();
+    if (message.id === lastId) return;
+    lastId = message.id;
+    clearSettle();
+    speech.cancel();
+    if (isPartial(message)) return;
+    if (message.event.type === 'mix-changed') {
+      settleTimer = clock.setTimeout(() => {
+        settleTimer = null;
+        speech.speak(message.text, voice);
+      }, mixSettleMs);
+    } else {
+      speech.speak(message.text, voice);
+    }
+  };
+
+  const unsubscribe = narrator.subscribe(handleMessage);
+  handleMessage();
+
+  return {
+    dispose() {
+      unsubscribe();
+      clearSettle();
+      speech.cancel();
+    },
+  };
+}
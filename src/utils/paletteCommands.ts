@@ -0,0 +1,169 @@
+import type { AboutData, AskAction, DisciplineMix, Project, ViewControls } from '@/types';
+import { DEFAULT_DISCIPLINE_MIX, FOCUS_MIXES, isSameMix } from './boardState';
+import { getDetailLabel } from './formatters';
+import { ABOUT_SLUG } from './routes';
+
+/** Opens a page outside the site (mail client, LinkedIn). Handled by the palette itself. */
+export interface LinkAction {
+  type: 'link';
+  href: string;
+}
+
+export type PaletteAction = AskAction | LinkAction;
+
+export type PaletteGroup = 'Projects' | 'Board' | 'About';
+
+export interface PaletteCommand {
+  /** Stable across renders and label changes; recents are stored by id. */
+  id: string;
+  group: PaletteGroup;
+  label: string;
+  /** Shown on the right, e.g. the slot label or the current state. */
+  hint?: string;
+  /** Extra words the fuzzy search matches on besides the label. */
+  keywords: string[];
+  action: PaletteAction;
+}
+
+export interface PaletteContext {
+  projects: Project[];
+  about: AboutData;
+  viewControls: ViewControls;
+  disciplineMix: DisciplineMix;
+}
+
+/** DETAIL knob positions offered in the palette, one per label. */
+const DETAIL_LEVELS = [0, 50, 100];
+
+const FOCUS_LABELS: Record<keyof DisciplineMix, string> = {
+  arch: 'Architecture',
+  prod: 'Product design',
+  sw: 'Software',
+};
+
+function projectCommands(projects: Project[]): PaletteCommand[] {
+  return projects.map((project) => ({
+    id: `project:${project.slug}`,
+    group: 'Projects',
+    label: project.title,
+    hint: project.metadata.category,
+    keywords: [
+      project.slotLabel ?? '',
+      project.metadata.category,
+      ...project.metadata.tools,
+    ].filter(Boolean),
+    action: { type: 'navigate', projectId: project.id },
+  }));
+}
+
+function boardCommands({ viewControls, disciplineMix }: PaletteContext): PaletteCommand[] {
+  const { heroEnabled, metadataEnabled, detailDepth } = viewControls;
+  const currentDetail = getDetailLabel(detailDepth);
+  const isCurrentMix = (mix: DisciplineMix) => (isSameMix(mix, disciplineMix) ? 'current' : undefined);
+
+  return [
+    {
+      id: 'board:hero',
+      group: 'Board',
+      label: heroEnabled ? 'Hide hero' : 'Show hero',
+      hint: 'HERO',
+      keywords: ['hero', 'image', 'video', 'toggle'],
+      action: { type: 'view', controls: { heroEnabled: !heroEnabled } },
+    },
+    {
+      id: 'board:meta',
+      group: 'Board',
+      label: metadataEnabled ? 'Hide metadata' : 'Show metadata',
+      hint: 'META',
+      keywords: ['metadata', 'meta', 'info', 'toggle'],
+      action: { type: 'view', controls: { metadataEnabled: !metadataEnabled } },
+    },
+    ...DETAIL_LEVELS.map((depth): PaletteCommand => {
+      const label = getDetailLabel(depth);
+      return {
+        id: `board:detail-${label}`,
+        group: 'Board',
+        label: `Detail: ${label}`,
+        hint: label === currentDetail ? 'current' : 'DETAIL',
+        keywords: ['detail', 'depth', 'level'],
+        action: { type: 'view', controls: { detailDepth: depth } },
+      };
+    }),
+    {
+      id: 'board:mix-reset',
+      group: 'Board',
+      label: 'Reset mix',
+      hint: isCurrentMix(DEFAULT_DISCIPLINE_MIX) ?? 'MIX',
+      keywords: ['mix', 'balance', 'balanced', 'default', 'knobs'],
+      action: { type: 'filter', mix: DEFAULT_DISCIPLINE_MIX },
+    },
+    ...(Object.keys(FOCUS_MIXES) as Array<keyof DisciplineMix>).map((key): PaletteCommand => ({
+      id: `board:mix-${key}`,
+      group: 'Board',
+      label: `Focus: ${FOCUS_LABELS[key]}`,
+      hint: isCurrentMix(FOCUS_MIXES[key]) ?? 'MIX',
+      keywords: ['mix', 'preset', 'emphasis', key],
+      action: { type: 'filter', mix: FOCUS_MIXES[key] },
+    })),
+    {
+      id: 'board:home',
+      group: 'Board',
+      label: 'Go home',
+      keywords: ['home', 'start', 'landing'],
+      action: { type: 'home' },
+    },
+  ];
+}
+
+function aboutCommands({ projects, about }: PaletteContext): PaletteCommand[] {
+  const { email, linkedin } = about.contact;
+  const aboutProject = projects.find((p) => p.slug === ABOUT_SLUG);
+  const commands: PaletteCommand[] = [
+    {
+      id: 'about:copy-email',
+      group: 'About',
+      label: 'Copy email address',
+      hint: email,
+      keywords: ['contact', 'email', 'clipboard'],
+      action: { type: 'copy-email', email },
+    },
+    {
+      id: 'about:email',
+      group: 'About',
+      label: 'Send an email',
+      keywords: ['contact', 'mail', 'write', 'hire'],
+      action: { type: 'link', href: `mailto:${email}` },
+    },
+  ];
+  if (aboutProject) {
+    commands.unshift({
+      id: 'about:page',
+      group: 'About',
+      label: 'About me',
+      keywords: ['about', 'bio', 'education', 'skills', 'cv'],
+      action: { type: 'navigate', projectId: aboutProject.id },
+    });
+  }
+  if (linkedin) {
+    commands.push({
+      id: 'about:linkedin',
+      group: 'About',
+      label: 'Open LinkedIn',
+      keywords: ['contact', 'linkedin', 'social', 'profile'],
+      action: { type: 'link', href: linkedin },
+    });
+  }
+  return commands;
+}
+
+/**
+ * Everything the command palette can do, grouped. Built from the live board state so
+ * toggles read as what they will do ("Hide metadata") and presets mark the current one.
+ */
+export function buildPaletteCommands(context: PaletteContext): PaletteCommand[] {
+  return [
+    ...projectCommands(context.projects.filter((p) => p.slug !== ABOUT_SLUG)),
+    ...boardCommands(context),
+    ...aboutCommands(context),
+  ];
+}
@@ -0,0 +1,87 @@
+import { matchPath } from 'react-router';
+import type { Project } from '@/types';
+
+/** Slug of the About Me entry; it lives at /about rather than /projects/:slug. */
+export const ABOUT_SLUG = 'about-me';
+
+export const SITE_NAME = 'Daniel A. Guerra';
+const SITE_DESCRIPTION =
+  'Portfolio of Daniel A. Guerra — architecture, product design, and software, navigated from a DJ-style console.';
+
+export const HOME_PATH = '/';
+export const ABOUT_PATH = '/about';
+export const PROJECT_PATH_PATTERN = '/projects/:slug';
+/**
+ * Author-only list of questions Ask couldn't answer. Unlinked and not prerendered; served
+ * in dev, and in a production build only when built with VITE_ASK_LOG_VIEW=1.
+ */
+export const ASK_LOG_PATH = '/author/ask-log';
+const ASK_LOG_VIEW_ENABLED = import.meta.env.DEV || import.meta.env.VITE_ASK_LOG_VIEW === '1';
+
+/** Query parameter holding the open lightbox image (1-based) on a project page. */
+export const GALLERY_IMAGE_PARAM = 'image';
+
+export type ResolvedRoute =
+  | { kind: 'home' }
+  | { kind: 'project'; project: Project }
+  | { kind: 'ask-log' }
+  | { kind: 'not-found'; pathname: string };
+
+export function getProjectPath(project: Pick<Project, 'slug'>): string {
+  return project.slug === ABOUT_SLUG
+    ? ABOUT_PATH
+    : `/projects/${encodeURIComponent(project.slug)}`;
+}
+
+export function findProjectBySlug(
+  projects: Project[],
+  slug: string | undefined
+): Project | undefined {
+  if (!slug) return undefined;
+  return projects.find((p) => p.slug === slug);
+}
+
+/** Maps a pathname to the page it should render. Unknown slugs resolve to not-found. */
+export function resolveRoute(pathname: string, projects: Project[]): ResolvedRoute {
+  if (matchPath(HOME_PATH, pathname)) return { kind: 'home' };
+
+  if (matchPath(ABOUT_PATH, pathname)) {
+    const about = findProjectBySlug(projects, ABOUT_SLUG);
+    return about ? { kind: 'project', project: about } : { kind: 'not-found', pathname };
+  }
+
+  if (ASK_LOG_VIEW_ENABLED && matchPath(ASK_LOG_PATH, pathname)) return { kind: 'ask-log' };
+
+  const match = matchPath(PROJECT_PATH_PATTERN, pathname);
+  const project = findProjectBySlug(projects, match?.params.slug);
+  if (project) return { kind: 'project', project };
+
+  return { kind: 'not-found', pathname };
+}
+
+export interface RouteMeta {
+  title: string;
+  description: string;
+}
+
+/** Document title and description for a route; shared by the client and the prerenderer. */
+export function getRouteMeta(route: ResolvedRoute): RouteMeta {
+  switch (route.kind) {
+    case 'home':
+      return { title: `${SITE_NAME} · Portfolio`, description: SITE_DESCRIPTION };
+    case 'project':
+      return {
+        title: `${route.project.title} · ${SITE_NAME}`,
+        description: route.project.content.summary,
+      };
+    case 'ask-log':
+      return { title: `Ask log · ${SITE_NAME}`, description: SITE_DESCRIPTION };
+    case 'not-found':
+      return { title: `Not found · ${SITE_NAME}`, description: SITE_DESCRIPTION };
+  }
+}
+
+/** Every path the prerenderer should emit: home, about, and one page per project. */
+export function getPrerenderPaths(projects: Project[]): string[] {
+  return [HOME_PATH, ...projects.map(getProjectPath)];
+}
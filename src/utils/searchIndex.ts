@@ -0,0 +1,228 @@
+import type { Project } from '@/types';
+import { isTypoOf, normalizeWords } from './textMatch';
+
+/** Searchable parts of a project and how much a hit in each counts. */
+const FIELD_WEIGHTS = {
+  title: 3,
+  summary: 2,
+  description: 1.5,
+  architecture: 1,
+  productDesign: 1,
+  software: 1,
+  process: 1,
+  technicalDetails: 1,
+  tools: 2,
+  collaborators: 1.5,
+  gallery: 1,
+} as const;
+
+export type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/** BM25 parameters: term-frequency saturation and document-length normalisation. */
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 160;
+
+/** Weight of a query term that only matched after typo correction. */
+const CORRECTED_TERM_WEIGHT = 0.8;
+
+/** Words too common to say anything about a project. Shared with keywordEntries.ts. */
+export const STOPWORDS: ReadonlySet<string> = new Set([
+  'a', 'about', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have',
+  'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'more',
+  'most', 'my', 'no', 'not', 'of', 'on', 'one', 'or', 'our', 'she', 'so', 'some', 'tell',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to',
+  'us', 'use', 'used', 'uses', 'using', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/** Ordered suffix rules: [suffix, replacement, minimum stem length left behind]. */
+const SUFFIX_RULES: Array<[string, string, number]> = [
+  ['ational', 'ate', 3],
+  ['ization', 'ize', 3],
+  ['fulness', 'ful', 3],
+  ['ousness', 'ous', 3],
+  ['iveness', 'ive', 3],
+  ['ations', 'ate', 3],
+  ['ation', 'ate', 3],
+  ['ments', '', 4],
+  ['ment', '', 4],
+  ['ness', '', 3],
+  ['ingly', '', 3],
+  ['ings', '', 3],
+  ['ing', '', 3],
+  ['edly', '', 3],
+  ['ies', 'y', 2],
+  ['ied', 'y', 2],
+  ['sses', 'ss', 2],
+  ['ed', '', 3],
+  ['ly', '', 3],
+  ['es', '', 3],
+  ['s', '', 3],
+];
+
+/**
+ * A light suffix-stripping stemmer, enough to fold plurals and verb forms together
+ * ("renders" / "rendering" / "rendered" → "render"). Not a full Porter stemmer.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith('ss') || word.endsWith('us') || word.endsWith('is')) return word;
+  for (const [suffix, replacement, minStem] of SUFFIX_RULES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= minStem) {
+      let base = word.slice(0, -suffix.length) + replacement;
+      // "planning" → "plan", "cutting" → "cut"
+      if (replacement === '' && /([^aeiouls])\1$/.test(base)) base = base.slice(0, -1);
+      return base;
+    }
+  }
+  return word;
+}
+
+/** Lower-cased word tokens, without stopwords, stemmed. */
+export function tokenize(text: string): string[] {
+  return normalizeWords(text).filter((w) => !STOPWORDS.has(w)).map(stem);
+}
+
+function getFieldTexts(project: Project): Record<SearchField, string> {
+  const { content, metadata, assets } = project;
+  return {
+    title: project.title,
+    summary: content.summary,
+    description: content.description,
+    architecture: content.disciplines.architecture,
+    productDesign: content.disciplines.productDesign,
+    software: content.disciplines.software,
+    process: content.process ?? '',
+    technicalDetails: content.technicalDetails ?? '',
+    tools: metadata.tools.join(', '),
+    collaborators: metadata.collaborators.join(', '),
+    gallery: assets.gallery.map((image) => image.title).join('. '),
+  };
+}
+
+interface IndexedDocument {
+  project: Project;
+  fields: Record<SearchField, string>;
+  /** Field-weighted frequency of each term. */
+  termFrequency: Map<string, number>;
+  /** Terms found in each field, for picking the snippet. */
+  fieldTerms: Record<SearchField, Set<string>>;
+  length: number;
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export interface ProjectSearchHit {
+  project: Project;
+  score: number;
+  /** Field the snippet was taken from. */
+  field: SearchField;
+  snippet: string;
+}
+
+/** Indexes every searchable field of every project. Cheap enough to build on startup. */
+export function buildSearchIndex(projects: Project[]): SearchIndex {
+  const documentFrequency = new Map<string, number>();
+  const documents = projects.map((project): IndexedDocument => {
+    const fields = getFieldTexts(project);
+    const termFrequency = new Map<string, number>();
+    const fieldTerms = {} as Record<SearchField, Set<string>>;
+    let length = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      const tokens = tokenize(fields[field]);
+      fieldTerms[field] = new Set(tokens);
+      length += tokens.length * FIELD_WEIGHTS[field];
+      for (const token of tokens) {
+        termFrequency.set(token, (termFrequency.get(token) ?? 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+    for (const term of termFrequency.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+    return { project, fields, termFrequency, fieldTerms, length };
+  });
+  const averageLength =
+    documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, documents.length);
+  return { documents, documentFrequency, averageLength };
+}
+
+function inverseDocumentFrequency(index: SearchIndex, term: string): number {
+  const n = index.documentFrequency.get(term) ?? 0;
+  const total = index.documents.length;
+  return Math.log(1 + (total - n + 0.5) / (n + 0.5));
+}
+
+/** The sentence with the most query terms in the best-matching field, trimmed to length. */
+function makeSnippet(doc: IndexedDocument, terms: string[]): { field: SearchField; snippet: string } {
+  let best = { field: 'summary' as SearchField, sentence: doc.fields.summary, hits: 0 };
+  for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+    if (!terms.some((t) => doc.fieldTerms[field].has(t))) continue;
+    const sentences = doc.fields[field].split(/(?<=[.!?])\s+|\n+/);
+    for (const sentence of sentences) {
+      const sentenceTerms = new Set(tokenize(sentence));
+      const hits = terms.filter((t) => sentenceTerms.has(t)).length;
+      if (hits > best.hits) best = { field, sentence, hits };
+    }
+  }
+  const text = best.sentence.trim();
+  const snippet =
+    text.length <= SNIPPET_LENGTH
+      ? text
+      : `${text.slice(0, SNIPPET_LENGTH).replace(/\s+\S*$/, '')}…`;
+  return { field: best.field, snippet };
+}
+
+/** Maps a term missing from the index to the indexed term it is most likely a typo of. */
+function correctTerm(index: SearchIndex, term: string): string | undefined {
+  if (index.documentFrequency.has(term)) return term;
+  let best: { term: string; df: number } | undefined;
+  for (const [candidate, df] of index.documentFrequency) {
+    if (isTypoOf(term, candidate) && (!best || df > best.df)) best = { term: candidate, df };
+  }
+  return best?.term;
+}
+
+/**
+ * Ranks projects against a free-text query with BM25. Query terms missing from the index
+ * are corrected to the closest indexed term ("grashopper" → "grasshopper") at a discount.
+ * Returns at most `limit` hits.
+ */
+export function searchProjects(
+  index: SearchIndex,
+  query: string,
+  limit = 3
+): ProjectSearchHit[] {
+  const weighted = new Map<string, number>();
+  for (const token of tokenize(query)) {
+    const term = correctTerm(index, token);
+    if (!term) continue;
+    const weight = term === token ? 1 : CORRECTED_TERM_WEIGHT;
+    weighted.set(term, Math.max(weighted.get(term) ?? 0, weight));
+  }
+  const terms = [...weighted.keys()];
+  if (terms.length === 0) return [];
+
+  const scored = index.documents.map((doc) => {
+    let score = 0;
+    for (const [term, weight] of weighted) {
+      const tf = doc.termFrequency.get(term);
+      if (!tf) continue;
+      const norm = K1 * (1 - B + (B * doc.length) / index.averageLength);
+      score += weight * inverseDocumentFrequency(index, term) * ((tf * (K1 + 1)) / (tf + norm));
+    }
+    return { doc, score };
+  });
+
+  return scored
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ doc, score }) => ({ project: doc.project, score, ...makeSnippet(doc, terms) }));
+}
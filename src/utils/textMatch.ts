@@ -0,0 +1,54 @@
+/**
+ * Lower-cased words with accents and punctuation stripped; hyphens split words, so
+ * "Zero-Mile" and "zero mile" both give ["zero", "mile"].
+ */
+export function normalizeWords(text: string): string[] {
+  return (
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  );
+}
+
+/** Edits allowed before two words stop counting as the same: none for short words. */
+export function maxTypos(length: number): number {
+  if (length <= 4) return 0;
+  if (length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Damerau–Levenshtein distance (optimal string alignment): insertions, deletions,
+ * substitutions and swaps of adjacent letters each cost 1. Returns `max + 1` as soon as
+ * the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** True when `word` is `target` give or take the typos its length allows. */
+export function isTypoOf(word: string, target: string): boolean {
+  const allowed = maxTypos(Math.min(word.length, target.length));
+  return allowed > 0 && editDistance(word, target, allowed) <= allowed;
+}
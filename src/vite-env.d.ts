@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Streaming Ask backend (NDJSON over POST). Unset keeps Ask on the offline keyword engine. */
+  readonly VITE_ASK_ENDPOINT?: string;
+  /** Milliseconds before the Ask backend is abandoned for the local answer. */
+  readonly VITE_ASK_TIMEOUT_MS?: string;
+  /** Optional collector that unanswered Ask questions are POSTed to, besides localStorage. */
+  readonly VITE_ASK_LOG_ENDPOINT?: string;
+  /** '1' serves the /author/ask-log view in a production build; it is always there in dev. */
+  readonly VITE_ASK_LOG_VIEW?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -2,11 +2,21 @@ import { defineConfig } from 'vite'
 import path from 'path'
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
+import { projectContent } from './plugins/projectContent'
+import { contentValidation } from './plugins/contentValidation'
 
 export default defineConfig({
   plugins: [
     react(),
     tailwindcss(),
+    projectContent({ dir: path.resolve(__dirname, './content/projects') }),
+    contentValidation({
+      dir: path.resolve(__dirname, './content/projects'),
+      slidesModule: path.resolve(__dirname, './src/data/heroShowcase.ts'),
+      // The project images aren't committed yet, so missing ones only warn for now.
+      // CONTENT_REQUIRE_ASSETS=1 makes them fail the build, e.g. for a deploy.
+      allowMissingAssets: process.env.CONTENT_REQUIRE_ASSETS !== '1',
+    }),
   ],
   resolve: {
     alias: {